@@ -5,6 +5,10 @@ import * as CANNON from 'cannon-es';
 import { useGameStore } from '../hooks/useGameStore';
 import { useKeyboard } from '../hooks/useKeyboard';
 import { useTheme } from '../hooks/useTheme';
+import { rng } from '../utils/rng';
+import type { BasketballMissReason } from '../types';
+import { PHYSICS_MATERIALS, addContactMaterial, addPhysicsBodies, addPhysicsBody } from '../physics/physicsWorld';
+import { createShotTracker, type HoopBodies, type ShotTracker } from '../physics/shotTracker';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -19,11 +23,11 @@ interface BasketballGameProps {
 // ============================================================================
 const BASKETBALL_CONFIG = {
   PHYSICS: {
-    WALL_HEIGHT: 8,
-    WALL_THICKNESS: 0.1,
-    GRAVITY: -15,
+    GRAVITY: -15, // per-body, floatier than the player's
     MAX_PICKUP_DISTANCE: 3,
     GROUNDED_CHECK_TIME: 1,
+    MISS_TIMEOUT: 6, // seconds a thrown ball may stay in play without scoring
+    OUT_OF_COURT_DROP: 1, // how far below the floor a ball counts as gone
     SETTLE_THRESHOLD: 0.5,
     PROXIMITY_RADIUS: 8,
   },
@@ -34,6 +38,18 @@ const BASKETBALL_CONFIG = {
     BACKBOARD_HEIGHT: 1.2,
     RIM_SEGMENTS: 12,
     RIM_SPHERE_RADIUS: 0.03,
+    // Moving-hoop mode: the whole hoop slides side to side along a rail
+    RAIL: {
+      AMPLITUDE: 3,
+      SPEED: 0.9, // rad/s
+    },
+    // Trigger boxes inside the ring, centred this far above / below the rim
+    SENSOR: {
+      HALF_WIDTH: 0.15,
+      HALF_HEIGHT: 0.15,
+      UPPER_OFFSET: 0.2,
+      LOWER_OFFSET: -0.35,
+    },
   },
   BALL: {
     RADIUS: 0.12,
@@ -61,114 +77,70 @@ const BASKETBALL_CONFIG = {
 // HELPER FUNCTIONS
 // ============================================================================
 
-const createEnvironmentBodies = (
-  world: CANNON.World,
-  position: [number, number, number],
-  zoneSize: [number, number, number],
-  wallMaterial: CANNON.Material,
-  groundMaterial: CANNON.Material
-) => {
-  // Ground
-  const groundBody = new CANNON.Body({
-    mass: 0,
-    position: new CANNON.Vec3(position[0], position[1], position[2]),
-    shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, 0.1, zoneSize[2] / 2)),
-    material: groundMaterial,
-  });
-  world.addBody(groundBody);
-
-  // Walls
-  const walls = [
-    {
-      position: new CANNON.Vec3(position[0], position[1] + BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2] - zoneSize[2] / 2),
-      shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, BASKETBALL_CONFIG.PHYSICS.WALL_THICKNESS)),
-    },
-    {
-      position: new CANNON.Vec3(position[0], position[1] + BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2] + zoneSize[2] / 2),
-      shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, BASKETBALL_CONFIG.PHYSICS.WALL_THICKNESS)),
-    },
-    {
-      position: new CANNON.Vec3(position[0] + zoneSize[0] / 2, position[1] + BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2]),
-      shape: new CANNON.Box(new CANNON.Vec3(BASKETBALL_CONFIG.PHYSICS.WALL_THICKNESS, BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, zoneSize[2] / 2)),
-    },
-    {
-      position: new CANNON.Vec3(position[0] - zoneSize[0] / 2, position[1] + BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2]),
-      shape: new CANNON.Box(new CANNON.Vec3(BASKETBALL_CONFIG.PHYSICS.WALL_THICKNESS, BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT / 2, zoneSize[2] / 2)),
-    },
-  ];
-
-  walls.forEach(wall => {
-    const wallBody = new CANNON.Body({
-      mass: 0,
-      position: wall.position,
-      shape: wall.shape,
-      material: wallMaterial,
-    });
-    world.addBody(wallBody);
-  });
-
-  // Ceiling
-  const ceiling = new CANNON.Body({
-    mass: 0,
-    position: new CANNON.Vec3(position[0], position[1] + BASKETBALL_CONFIG.PHYSICS.WALL_HEIGHT, position[2]),
-    shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, 0.1, zoneSize[2] / 2)),
-    material: wallMaterial,
-  });
-  world.addBody(ceiling);
-
-  return groundBody;
-};
-
-const createHoopPhysics = (
-  world: CANNON.World,
-  hoopPosition: [number, number, number],
-  wallMaterial: CANNON.Material
-) => {
+// Court floor, walls and ceiling are the room's own bodies (see Room.tsx);
+// only the hoop and ball belong to the game. Bodies are returned, not added.
+const createHoopBodies = (hoopPosition: [number, number, number]): HoopBodies => {
   // Backboard
   const backboard = new CANNON.Body({
     mass: 0,
     position: new CANNON.Vec3(hoopPosition[0], hoopPosition[1] + 3.35, hoopPosition[2] - 0.1),
     shape: new CANNON.Box(new CANNON.Vec3(0.9, 0.6, 0.05)),
-    material: wallMaterial,
+    material: PHYSICS_MATERIALS.wall,
   });
-  world.addBody(backboard);
 
   // Rim segments
   const rimRadius = BASKETBALL_CONFIG.HOOP.RADIUS;
   const rimY = hoopPosition[1] + BASKETBALL_CONFIG.HOOP.HEIGHT;
   const rimZ = hoopPosition[2] + 0.3;
 
-  for (let i = 0; i < BASKETBALL_CONFIG.HOOP.RIM_SEGMENTS; i++) {
+  const rimSegments = Array.from({ length: BASKETBALL_CONFIG.HOOP.RIM_SEGMENTS }, (_, i) => {
     const angle = (i / BASKETBALL_CONFIG.HOOP.RIM_SEGMENTS) * Math.PI * 2;
     const rimX = hoopPosition[0] + Math.cos(angle) * rimRadius;
     const rimZPos = rimZ + Math.sin(angle) * rimRadius;
 
-    const rimSegment = new CANNON.Body({
+    return new CANNON.Body({
       mass: 0,
       position: new CANNON.Vec3(rimX, rimY, rimZPos),
       shape: new CANNON.Sphere(BASKETBALL_CONFIG.HOOP.RIM_SPHERE_RADIUS),
-      material: wallMaterial,
+      material: PHYSICS_MATERIALS.wall,
     });
-    world.addBody(rimSegment);
-  }
+  });
+
+  // Scoring sensors: detect only, the ball passes straight through
+  const { SENSOR } = BASKETBALL_CONFIG.HOOP;
+  const createSensor = (offsetY: number) => new CANNON.Body({
+    mass: 0,
+    isTrigger: true,
+    position: new CANNON.Vec3(hoopPosition[0], rimY + offsetY, rimZ),
+    shape: new CANNON.Box(new CANNON.Vec3(SENSOR.HALF_WIDTH, SENSOR.HALF_HEIGHT, SENSOR.HALF_WIDTH)),
+  });
+
+  return {
+    backboard,
+    rim: rimSegments,
+    upperSensor: createSensor(SENSOR.UPPER_OFFSET),
+    lowerSensor: createSensor(SENSOR.LOWER_OFFSET),
+  };
+};
+
+// Slides every hoop body sideways to `offsetX` from where it was built
+const moveHoopBodies = (hoop: HoopBodies, fromX: number, offsetX: number) => {
+  [hoop.backboard, ...hoop.rim, hoop.upperSensor, hoop.lowerSensor].forEach(body => {
+    body.position.x += offsetX - fromX;
+    body.aabbNeedsUpdate = true;
+  });
 };
 
-const createBallBody = (
-  world: CANNON.World,
-  position: [number, number, number],
-  material: CANNON.Material
-) => {
-  const ballBody = new CANNON.Body({
+const createBallBody = (position: [number, number, number]) => (
+  new CANNON.Body({
     mass: BASKETBALL_CONFIG.BALL.MASS,
     position: new CANNON.Vec3(position[0], position[1], position[2]),
     shape: new CANNON.Sphere(BASKETBALL_CONFIG.BALL.RADIUS),
-    material: material,
+    material: PHYSICS_MATERIALS.ball,
     linearDamping: BASKETBALL_CONFIG.BALL.DAMPING.LINEAR,
     angularDamping: BASKETBALL_CONFIG.BALL.DAMPING.ANGULAR,
-  });
-  world.addBody(ballBody);
-  return ballBody;
-};
+  })
+);
 
 // ============================================================================
 // VISUAL COMPONENTS
@@ -370,13 +342,12 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
     setThrowPower,
     isChargingThrow,
     setIsChargingThrow,
-    incrementBasketballScore,
-    incrementBasketballAttempts,
     basketballBetPlaced,
-    basketballBetAmount,
-    addMoney,
-    removeMoney,
+    armBasketballShot,
+    releaseBasketballShot,
+    resolveBasketballShot,
     isLocked,
+    basketballMode,
     exitBasketballZone,
     enterBasketballZone,
     resetBasketballGame,
@@ -384,22 +355,24 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
 
   // PHYSICS REFERENCES
   // --------------------------------------------------------------------------
-  const worldRef = useRef<CANNON.World | null>(null);
   const ballBodyRef = useRef<CANNON.Body | null>(null);
   const ballMeshRef = useRef<THREE.Mesh | null>(null);
+  const shotTrackerRef = useRef<ShotTracker | null>(null);
+  const hoopBodiesRef = useRef<HoopBodies | null>(null);
 
   // GAME LOGIC REFERENCES
   // --------------------------------------------------------------------------
   const scoreCheckTimeRef = useRef(0);
-  const lastBallYRef = useRef(0);
-  const hasScoreCheckedRef = useRef(false);
   const hasThrownBallRef = useRef(false);
   const ballGroundedTimeRef = useRef(0);
+  const railTimeRef = useRef(0);
+  const hoopOffsetRef = useRef(0);
 
   // VISUALIZATION REFERENCES
   // --------------------------------------------------------------------------
   const trajectoryRef = useRef<THREE.Vector3[]>([]);
   const trajectoryLineRef = useRef<THREE.Line | null>(null);
+  const hoopGroupRef = useRef<THREE.Group | null>(null);
 
   // COMPUTED POSITIONS
   // --------------------------------------------------------------------------
@@ -457,54 +430,23 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
     );
 
     // Add random spin
+    const random = rng('basketball');
     ballBodyRef.current.angularVelocity.set(
-      Math.random() * 5 - 2.5,
-      Math.random() * 5 - 2.5,
-      Math.random() * 5 - 2.5,
+      random.range(-2.5, 2.5),
+      random.range(-2.5, 2.5),
+      random.range(-2.5, 2.5),
     );
 
     // Update game state
+    shotTrackerRef.current?.startShot();
     hasThrownBallRef.current = true;
-    hasScoreCheckedRef.current = false;
     scoreCheckTimeRef.current = 0;
 
+    releaseBasketballShot();
     setIsHoldingBall(false);
     setIsChargingThrow(false);
     setThrowPower(0);
-    incrementBasketballAttempts();
-  }, [camera, incrementBasketballAttempts, isHoldingBall, setIsChargingThrow, setIsHoldingBall, setThrowPower, throwPower]);
-
-  // SCORING LOGIC
-  // --------------------------------------------------------------------------
-  const checkScore = useCallback(() => {
-    if (!ballBodyRef.current || hasScoreCheckedRef.current) return;
-
-    const ballPos = ballBodyRef.current.position;
-    const hoopCenter = {
-      x: hoopPosition[0],
-      y: hoopPosition[1] + BASKETBALL_CONFIG.HOOP.HEIGHT,
-      z: hoopPosition[2] + 0.3,
-    };
-
-    // Check if ball passed through hoop
-    const dx = ballPos.x - hoopCenter.x;
-    const dz = ballPos.z - hoopCenter.z;
-    const horizontalDist = Math.sqrt(dx * dx + dz * dz);
-
-    const currentY = ballPos.y;
-    const lastY = lastBallYRef.current;
-
-    if (horizontalDist < 0.35 && lastY > hoopCenter.y && currentY < hoopCenter.y) {
-      incrementBasketballScore();
-      hasScoreCheckedRef.current = true;
-
-      if (basketballBetPlaced) {
-        addMoney(basketballBetAmount * 2);
-      }
-    }
-
-    lastBallYRef.current = currentY;
-  }, [addMoney, basketballBetAmount, basketballBetPlaced, hoopPosition, incrementBasketballScore]);
+  }, [camera, isHoldingBall, releaseBasketballShot, setIsChargingThrow, setIsHoldingBall, setThrowPower, throwPower]);
 
   // PROXIMITY CHECK LOGIC
   // --------------------------------------------------------------------------
@@ -583,41 +525,85 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
     }
   }, [isHoldingBall]);
 
-  // BALL RESET LOGIC
+  // BALL RESET
+  // --------------------------------------------------------------------------
+  const returnBallToSpot = useCallback(() => {
+    const ball = ballBodyRef.current;
+    if (!ball) return;
+
+    ball.position.set(ballInitialPosition[0], ballInitialPosition[1], ballInitialPosition[2]);
+    ball.velocity.set(0, 0, 0);
+    ball.angularVelocity.set(0, 0, 0);
+
+    hasThrownBallRef.current = false;
+    ballGroundedTimeRef.current = 0;
+    scoreCheckTimeRef.current = 0;
+  }, [ballInitialPosition]);
+
+  // MISS DETECTION
   // --------------------------------------------------------------------------
+  // A thrown ball that has not scored is a miss once it leaves the court,
+  // lies on the floor or stays in play too long; then it goes back to the spot
   const handleBallReset = useCallback((delta: number) => {
-    if (!isHoldingBall && hasThrownBallRef.current && ballBodyRef.current) {
-      scoreCheckTimeRef.current += delta;
-      checkScore();
-
-      // Check if ball is grounded
-      const ballY = ballBodyRef.current.position.y;
-      const ballVelY = Math.abs(ballBodyRef.current.velocity.y);
-      const isOnGround = ballY < position[1] + 0.3 && ballVelY < BASKETBALL_CONFIG.PHYSICS.SETTLE_THRESHOLD;
-
-      if (isOnGround) {
-        ballGroundedTimeRef.current += delta;
-
-        // Reset ball after being grounded for configured time
-        if (ballGroundedTimeRef.current > BASKETBALL_CONFIG.PHYSICS.GROUNDED_CHECK_TIME) {
-          ballBodyRef.current.position.set(
-            ballInitialPosition[0],
-            ballInitialPosition[1],
-            ballInitialPosition[2],
-          );
-          ballBodyRef.current.velocity.set(0, 0, 0);
-          ballBodyRef.current.angularVelocity.set(0, 0, 0);
+    const ball = ballBodyRef.current;
+    if (isHoldingBall || !hasThrownBallRef.current || !ball) return;
 
-          hasThrownBallRef.current = false;
-          hasScoreCheckedRef.current = false;
-          ballGroundedTimeRef.current = 0;
-          scoreCheckTimeRef.current = 0;
-        }
-      } else {
-        ballGroundedTimeRef.current = 0;
-      }
+    scoreCheckTimeRef.current += delta;
+
+    const isOnGround = ball.position.y < position[1] + 0.3 &&
+      Math.abs(ball.velocity.y) < BASKETBALL_CONFIG.PHYSICS.SETTLE_THRESHOLD;
+    ballGroundedTimeRef.current = isOnGround ? ballGroundedTimeRef.current + delta : 0;
+
+    const isOutOfCourt =
+      Math.abs(ball.position.x - position[0]) > zoneSize[0] / 2 + BASKETBALL_CONFIG.BALL.RADIUS ||
+      Math.abs(ball.position.z - position[2]) > zoneSize[2] / 2 + BASKETBALL_CONFIG.BALL.RADIUS ||
+      ball.position.y < position[1] - BASKETBALL_CONFIG.PHYSICS.OUT_OF_COURT_DROP;
+
+    let missReason: BasketballMissReason | null = null;
+    if (isOutOfCourt) missReason = 'outOfCourt';
+    else if (ballGroundedTimeRef.current > BASKETBALL_CONFIG.PHYSICS.GROUNDED_CHECK_TIME) missReason = 'grounded';
+    else if (scoreCheckTimeRef.current > BASKETBALL_CONFIG.PHYSICS.MISS_TIMEOUT) missReason = 'timeout';
+    if (!missReason) return;
+
+    // No-op for a shot that already scored and is just rolling back
+    resolveBasketballShot({ missReason });
+    returnBallToSpot();
+  }, [isHoldingBall, resolveBasketballShot, position, zoneSize, returnBallToSpot]);
+
+  // SHOOTOUT CLOCKS
+  // --------------------------------------------------------------------------
+  // Clocks only run while the game has the pointer, so pausing stops them
+  const handleShootoutClock = useCallback((delta: number) => {
+    if (!isLocked || !isBasketballActive) return;
+
+    const call = useGameStore.getState().tickBasketballRound(delta);
+    if (!call) return;
+
+    // The store has taken the ball out of the player's hands; a shot already
+    // in the air at the horn is left to land and still counts
+    if (!hasThrownBallRef.current) returnBallToSpot();
+    if (call === 'horn') document.exitPointerLock();
+  }, [isLocked, isBasketballActive, returnBallToSpot]);
+
+  // MOVING HOOP
+  // --------------------------------------------------------------------------
+  const handleHoopRail = useCallback((delta: number) => {
+    const hoop = hoopBodiesRef.current;
+    if (!hoop) return;
+
+    let offset = 0;
+    if (basketballMode === 'movingHoop' && isBasketballActive) {
+      railTimeRef.current += delta;
+      offset = Math.sin(railTimeRef.current * BASKETBALL_CONFIG.HOOP.RAIL.SPEED) * BASKETBALL_CONFIG.HOOP.RAIL.AMPLITUDE;
+    } else {
+      railTimeRef.current = 0;
     }
-  }, [isHoldingBall, checkScore, position, ballInitialPosition]);
+    if (offset === hoopOffsetRef.current) return;
+
+    moveHoopBodies(hoop, hoopOffsetRef.current, offset);
+    hoopOffsetRef.current = offset;
+    if (hoopGroupRef.current) hoopGroupRef.current.position.x = offset;
+  }, [basketballMode, isBasketballActive]);
 
   // UPDATE BALL MESH HELPER
   // --------------------------------------------------------------------------
@@ -650,7 +636,6 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
   useEffect(() => {
     if (basketballBetPlaced) {
       hasThrownBallRef.current = false;
-      hasScoreCheckedRef.current = false;
       scoreCheckTimeRef.current = 0;
     }
   }, [basketballBetPlaced]);
@@ -671,12 +656,15 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
         const distance = ballPos.distanceTo(playerPos);
 
         if (distance < BASKETBALL_CONFIG.PHYSICS.MAX_PICKUP_DISTANCE) {
-          const success = removeMoney(basketballBetAmount);
-          if (!success) return;
+          // Catching a ball still in the air abandons that shot
+          if (!armBasketballShot()) return;
 
           setIsHoldingBall(true);
           ballBodyRef.current.velocity.set(0, 0, 0);
           ballBodyRef.current.angularVelocity.set(0, 0, 0);
+          hasThrownBallRef.current = false;
+          ballGroundedTimeRef.current = 0;
+          scoreCheckTimeRef.current = 0;
 
           trajectoryRef.current = [];
         }
@@ -685,7 +673,7 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
 
     window.addEventListener('mousedown', handleMouseDown);
     return () => window.removeEventListener('mousedown', handleMouseDown);
-  }, [isBasketballActive, basketballBetPlaced, isHoldingBall, camera, setIsHoldingBall, removeMoney, basketballBetAmount]);
+  }, [isBasketballActive, basketballBetPlaced, isHoldingBall, camera, setIsHoldingBall, armBasketballShot]);
 
   // KEYBOARD THROW CONTROLS
   // --------------------------------------------------------------------------
@@ -722,64 +710,61 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
   useEffect(() => {
     if (currentRoom !== 'minigame2') return;
 
-    const world = new CANNON.World();
-    world.gravity.set(0, BASKETBALL_CONFIG.PHYSICS.GRAVITY, 0);
-    world.broadphase = new CANNON.NaiveBroadphase();
-
-    // Materials
-    const ballMaterial = new CANNON.Material('ball');
-    const groundMaterial = new CANNON.Material('ground');
-    const wallMaterial = new CANNON.Material('wall');
-
     // Contact materials
-    world.addContactMaterial(new CANNON.ContactMaterial(ballMaterial, groundMaterial, {
-      friction: BASKETBALL_CONFIG.BALL.FRICTION,
-      restitution: BASKETBALL_CONFIG.BALL.RESTITUTION,
-    }));
-
-    world.addContactMaterial(new CANNON.ContactMaterial(ballMaterial, wallMaterial, {
-      friction: 0.3,
-      restitution: 0.5,
-    }));
-
-    // ENVIRONMENT BODIES
-    createEnvironmentBodies(world, position, zoneSize, wallMaterial, groundMaterial);
+    const releases = [
+      addContactMaterial('ball', 'ground', {
+        friction: BASKETBALL_CONFIG.BALL.FRICTION,
+        restitution: BASKETBALL_CONFIG.BALL.RESTITUTION,
+      }),
+      addContactMaterial('ball', 'wall', {
+        friction: 0.3,
+        restitution: 0.5,
+      }),
+    ];
 
     // HOOP PHYSICS
-    createHoopPhysics(world, hoopPosition, wallMaterial);
+    const hoop = createHoopBodies(hoopPosition);
+    releases.push(addPhysicsBodies([hoop.backboard, ...hoop.rim, hoop.upperSensor, hoop.lowerSensor]));
+    hoopBodiesRef.current = hoop;
 
     // BALL PHYSICS
-    const ballBody = createBallBody(world, ballInitialPosition, ballMaterial);
+    const ballBody = createBallBody(ballInitialPosition);
+    releases.push(addPhysicsBody(ballBody, { gravity: BASKETBALL_CONFIG.PHYSICS.GRAVITY }));
     ballBodyRef.current = ballBody;
 
+    // SHOT EVENTS: a make settles the shot in flight; misses are decided
+    // in the frame loop (see handleBallReset)
+    const tracker = createShotTracker(ballBody, hoop);
+    tracker.onShot((event) => {
+      if (event.type === 'make') useGameStore.getState().resolveBasketballShot({ kind: event.kind });
+    });
+    shotTrackerRef.current = tracker;
+
     if (ballMeshRef.current) {
       ballMeshRef.current.position.set(ballInitialPosition[0], ballInitialPosition[1], ballInitialPosition[2]);
     }
 
-    worldRef.current = world;
-
     return () => {
-      if (worldRef.current) {
-        const bodies = worldRef.current.bodies.slice();
-        bodies.forEach(body => {
-          worldRef.current!.removeBody(body);
-        });
-        worldRef.current = null;
-      }
+      releases.forEach(release => release());
+      tracker.dispose();
+      shotTrackerRef.current = null;
+      hoopBodiesRef.current = null;
+      hoopOffsetRef.current = 0;
+      railTimeRef.current = 0;
       ballBodyRef.current = null;
       trajectoryRef.current = [];
       if (trajectoryLineRef.current) {
         trajectoryLineRef.current.geometry.dispose();
       }
     };
-  }, [ballInitialPosition, currentRoom, position, zoneSize, hoopPosition]);
+  }, [ballInitialPosition, currentRoom, hoopPosition]);
 
   // ==========================================================================
   // GAME LOOP (useFrame)
   // ==========================================================================
   useFrame((_, delta) => {
-    // Early return if not in basketball room or world not initialized
-    if (currentRoom !== 'minigame2' || !worldRef.current || !ballBodyRef.current) {
+    // Early return if not in basketball room or the ball is not set up yet
+    if (currentRoom !== 'minigame2' || !ballBodyRef.current) {
       return;
     }
 
@@ -789,10 +774,11 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
     // THROW CHARGING
     handleThrowCharging(delta);
 
-    // PHYSICS SIMULATION
-    worldRef.current.step(1 / 60, delta, 3);
+    // MODE CLOCKS & HOOP RAIL
+    handleShootoutClock(delta);
+    handleHoopRail(delta);
 
-    // GAME LOGIC UPDATES
+    // GAME LOGIC UPDATES (the shared world has already stepped this frame)
     handleBallHolding();
     updateBallMesh();
     handleTrajectoryVisualization();
@@ -815,8 +801,22 @@ export function BasketballGame({ position, zoneSize }: BasketballGameProps) {
       {/* Court Boundaries */}
       <CourtBoundaries position={position} zoneSize={zoneSize} isDarkMode={isDarkMode} />
 
-      {/* Hoop */}
-      <Hoop position={hoopPosition} />
+      {/* Hoop (slid along its rail in moving-hoop mode) */}
+      <group ref={hoopGroupRef}>
+        <Hoop position={hoopPosition} />
+      </group>
+
+      {/* Hoop Rail */}
+      {basketballMode === 'movingHoop' && (
+        <mesh position={[
+          hoopPosition[0],
+          hoopPosition[1] + BASKETBALL_CONFIG.HOOP.HEIGHT + 0.3 + BASKETBALL_CONFIG.HOOP.BACKBOARD_HEIGHT / 2 + 0.05,
+          hoopPosition[2] - 0.1,
+        ]}>
+          <boxGeometry args={[BASKETBALL_CONFIG.HOOP.RAIL.AMPLITUDE * 2 + BASKETBALL_CONFIG.HOOP.BACKBOARD_WIDTH, 0.06, 0.06]} />
+          <meshBasicMaterial color={isDarkMode ? "#888888" : "#555555"} />
+        </mesh>
+      )}
 
       {/* Basketball */}
       <Basketball ballRef={setBallMeshRef} />
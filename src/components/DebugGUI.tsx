@@ -6,6 +6,29 @@ import { useGameStore } from '../hooks/useGameStore';
 import { PLAYER_CONFIG, PHYSICS_CONFIG } from '../config/rooms';
 import { useTheme } from '../hooks/useTheme';
 import { useI18n } from '../hooks/useI18n';
+import { downloadSaveExport, pickSaveFile } from '../save/saveTransfer';
+import { getSaveStorage, LAST_QUICKSAVE_KEY } from '../save/saveStorage';
+import { dailySeed, getRngSeed, setRngSeed } from '../utils/rng';
+import { MAX_DICE_HOUSE_EDGE, type DiceCount } from '../economy/diceBets';
+import { formatDiceReport, runDiceSimulation, type DiceSimulationReport } from '../physics/diceSimulator';
+import { getPhysicsWorld } from '../physics/physicsWorld';
+import { peekLivePlayer } from '../utils/livePlayer';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// A fairness run outlives the GUI it was started from: the panel is rebuilt
+// whenever money, the room or the current save change, so the run keeps its
+// state here and whichever folder is current listens through onChange
+interface FairnessRun {
+  rolls: number;
+  count: DiceCount;
+  running: boolean;
+  done: number;
+  report: DiceSimulationReport | null;
+  failed: boolean;
+  onChange: (() => void) | null;
+}
 
 // ============================================================================
 // DEBUG GUI COMPONENT
@@ -17,23 +40,28 @@ export function DebugGUI() {
   const themeStateRef = useRef<{ darkMode: boolean } | null>(null);
   const saveSlotsRef = useRef<SaveSlot[]>([]);
   const saveListFolderRef = useRef<GUI | null>(null);
+  const fairnessRunRef = useRef<FairnessRun>({
+    rolls: 20000, count: 2, running: false, done: 0, report: null, failed: false, onChange: null,
+  });
   const { camera } = useThree();
   const { 
     currentRoom, 
     setCurrentRoom, 
     money, 
     setMoney,
-    saveGame,
     loadGame,
     deleteSave,
+    getSaveData,
+    importSave,
     listSaves,
     clearAllSaves,
+    cleanupOrphanSaves,
     autoSaveEnabled,
     toggleAutoSave,
     autoSaveInterval,
     setAutoSaveInterval,
     currentSaveId,
-    playerTeleportTarget,
+    quickSave,
   } = useGameStore();
   
   const { isDarkMode, toggleTheme } = useTheme();
@@ -119,8 +147,12 @@ export function DebugGUI() {
     // PHYSICS SETTINGS FOLDER
     // ========================================================================
     const physicsFolder = gui.addFolder(t('ui.debugPanel.physics.title'));
+    // Applies live: the shared world outlives any one room
     physicsFolder.add(PHYSICS_CONFIG, 'gravity', -50, 0, 1)
-      .name(t('ui.debugPanel.physics.gravity'));
+      .name(t('ui.debugPanel.physics.gravity'))
+      .onChange((value: number) => {
+        getPhysicsWorld().gravity.y = value;
+      });
     physicsFolder.add(PHYSICS_CONFIG, 'groundFriction', 0, 1, 0.1)
       .name(t('ui.debugPanel.physics.groundFriction'));
     physicsFolder.close();
@@ -201,19 +233,98 @@ export function DebugGUI() {
     
     languageFolder.close();
 
+    // ========================================================================
+    // RNG SEED FOLDER
+    // ========================================================================
+    const rngFolder = gui.addFolder(t('ui.debugPanel.rng.title'));
+    const rngState = {
+      seed: getRngSeed(),
+      apply: () => setRngSeed(rngState.seed.trim() || getRngSeed()),
+      daily: () => {
+        rngState.seed = dailySeed();
+        setRngSeed(rngState.seed);
+      },
+    };
+
+    // Re-seeding restarts every game's stream, so the next dice roll or
+    // Simon pattern replays from the start of that seed
+    rngFolder.add(rngState, 'seed').name(t('ui.debugPanel.rng.seed')).listen();
+    rngFolder.add(rngState, 'apply').name(t('ui.debugPanel.rng.apply'));
+    rngFolder.add(rngState, 'daily').name(t('ui.debugPanel.rng.daily'));
+
+    rngFolder.close();
+
+    // ========================================================================
+    // DICE FAIRNESS FOLDER
+    // ========================================================================
+    const fairnessFolder = gui.addFolder(t('ui.debugPanel.diceFairness.title'));
+    const fairnessRun = fairnessRunRef.current;
+    const fairnessStatus = () => {
+      if (fairnessRun.running) return `${fairnessRun.done} / ${fairnessRun.rolls}`;
+      if (fairnessRun.failed) return t('ui.debugPanel.diceFairness.failed');
+      if (!fairnessRun.report) return t('ui.debugPanel.diceFairness.idle');
+      return t('ui.debugPanel.diceFairness.done', {
+        chiSquare: fairnessRun.report.chiSquare.toFixed(2),
+        ambiguous: (fairnessRun.report.ambiguousRate * 100).toFixed(1),
+      });
+    };
+    const fairnessState = {
+      houseEdge: useGameStore.getState().diceHouseEdge,
+      status: fairnessStatus(),
+      run: async () => {
+        if (fairnessRun.running) return;
+        Object.assign(fairnessRun, { running: true, done: 0, report: null, failed: false });
+        fairnessRun.onChange?.();
+        try {
+          // Headless: a private world and RNG stream, the live table is untouched
+          const report = await runDiceSimulation(
+            { rolls: fairnessRun.rolls, count: fairnessRun.count },
+            (done) => {
+              fairnessRun.done = done;
+              fairnessRun.onChange?.();
+            }
+          );
+          console.log(formatDiceReport(report));
+          fairnessRun.report = report;
+        } catch (error) {
+          fairnessRun.failed = true;
+          console.error(t('ui.debugPanel.diceFairness.failed'), error);
+          alert(`${t('ui.debugPanel.diceFairness.failed')}\n${(error as Error).message}`);
+        } finally {
+          fairnessRun.running = false;
+          fairnessRun.onChange?.();
+        }
+      },
+    };
+    fairnessRun.onChange = () => { fairnessState.status = fairnessStatus(); };
+
+    fairnessFolder.add(fairnessRun, 'rolls', 1000, 50000, 1000).name(t('ui.debugPanel.diceFairness.rolls'));
+    fairnessFolder.add(fairnessRun, 'count', [2, 3]).name(t('ui.debugPanel.diceFairness.count'));
+    // Refused while bets are on the board; the slider snaps back to the live edge
+    fairnessFolder.add(fairnessState, 'houseEdge', 0, MAX_DICE_HOUSE_EDGE, 0.005)
+      .name(t('ui.debugPanel.diceFairness.houseEdge'))
+      .onChange((value: number) => {
+        useGameStore.getState().setDiceHouseEdge(value);
+        fairnessState.houseEdge = useGameStore.getState().diceHouseEdge;
+      })
+      .listen();
+    fairnessFolder.add(fairnessState, 'run').name(t('ui.debugPanel.diceFairness.run'));
+    fairnessFolder.add(fairnessState, 'status').name(t('ui.debugPanel.diceFairness.status')).listen().disable();
+
+    fairnessFolder.close();
+
     // ========================================================================
     // SAVE SYSTEM FOLDER
     // ========================================================================
     const saveFolder = gui.addFolder(t('ui.debugPanel.saveSystem.title'));
     
     // Auto-save settings
+    const playerPosition = peekLivePlayer().position ?? useGameStore.getState().playerPosition;
     const saveSettings = {
       autoSave: autoSaveEnabled,
       autoSaveInterval: autoSaveInterval,
       currentSave: currentSaveId || t('ui.debugPanel.saveSystem.none'),
-      playerPosition: playerTeleportTarget 
-        ? `${playerTeleportTarget.x.toFixed(1)}, ${playerTeleportTarget.y.toFixed(1)}, ${playerTeleportTarget.z.toFixed(1)}`
-        : t('ui.debugPanel.saveSystem.noPosition'),
+      playerPosition: `${playerPosition.x.toFixed(1)}, ${playerPosition.y.toFixed(1)}, ${playerPosition.z.toFixed(1)}`,
     };
     
     // Auto-save toggle
@@ -249,24 +360,18 @@ export function DebugGUI() {
     // Quick save/load buttons
     const saveActions = {
       quickSave: () => {
-        const position = playerTeleportTarget || { 
-          x: camera.position.x, 
-          y: 1.8, 
-          z: camera.position.z 
-        };
-        
-        const saveId = saveGame(position, 'quick');
-        if (saveId) {
-          saveSettings.currentSave = saveId;
+        const result = quickSave();
+        if (result.ok) {
+          saveSettings.currentSave = result.value;
           refreshSaveList();
           console.log(t('ui.debugPanel.saveSystem.quickSaveSuccess'));
         }
       },
       quickLoad: () => {
-        // Get last quick save ID from localStorage
-        const lastQuickSaveId = localStorage.getItem('mini3d_last_quicksave');
+        // Get last quick save ID from the save storage backend
+        const lastQuickSaveId = getSaveStorage().getItem(LAST_QUICKSAVE_KEY);
         if (lastQuickSaveId) {
-          if (loadGame(lastQuickSaveId)) {
+          if (loadGame(lastQuickSaveId).ok) {
             saveSettings.currentSave = currentSaveId || t('ui.debugPanel.saveSystem.loaded');
             console.log(t('ui.debugPanel.saveSystem.quickLoadSuccess'));
           }
@@ -275,21 +380,36 @@ export function DebugGUI() {
         }
       },
       manualSave: () => {
-        const position = playerTeleportTarget || { 
-          x: camera.position.x, 
-          y: 1.8, 
-          z: camera.position.z 
-        };
-        const saveName = prompt(t('ui.debugPanel.saveSystem.savePrompt')) || undefined;
-        const saveId = saveGame(position, 'manual', saveName);
-        if (saveId) {
-          saveSettings.currentSave = saveId;
-          refreshSaveList();
+        useGameStore.getState().setSaveMenuOpen(true);
+      },
+      exportCurrent: () => {
+        const saveId = useGameStore.getState().currentSaveId;
+        const data = saveId ? getSaveData(saveId) : null;
+        if (data) {
+          downloadSaveExport(data);
+        } else {
+          console.log(t('ui.debugPanel.saveSystem.noSaveToExport'));
+        }
+      },
+      importFile: async () => {
+        try {
+          const data = await pickSaveFile();
+          if (data && importSave(data).ok) {
+            refreshSaveList();
+            console.log(t('ui.debugPanel.saveSystem.importSuccess', { name: data.name }));
+          }
+        } catch (error) {
+          console.error(t('ui.debugPanel.saveSystem.importFailed'), error);
+          alert(`${t('ui.debugPanel.saveSystem.importFailed')}\n${(error as Error).message}`);
         }
       },
       refreshSaves: () => {
         refreshSaveList();
       },
+      cleanupOrphans: () => {
+        const removed = cleanupOrphanSaves();
+        console.log(t('ui.debugPanel.saveSystem.orphansRemoved', { count: String(removed) }));
+      },
       clearAll: () => {
         if (confirm(t('ui.debugPanel.saveSystem.clearConfirm'))) {
           clearAllSaves();
@@ -306,8 +426,14 @@ export function DebugGUI() {
       .name(t('ui.debugPanel.saveSystem.quickLoad'));
     saveFolder.add(saveActions, 'manualSave')
       .name(t('ui.debugPanel.saveSystem.manualSave'));
+    saveFolder.add(saveActions, 'exportCurrent')
+      .name(t('ui.debugPanel.saveSystem.exportCurrent'));
+    saveFolder.add(saveActions, 'importFile')
+      .name(t('ui.debugPanel.saveSystem.importFile'));
     saveFolder.add(saveActions, 'refreshSaves')
       .name(t('ui.debugPanel.saveSystem.refreshList'));
+    saveFolder.add(saveActions, 'cleanupOrphans')
+      .name(t('ui.debugPanel.saveSystem.cleanupOrphans'));
     saveFolder.add(saveActions, 'clearAll')
       .name(t('ui.debugPanel.saveSystem.clearAll'));
     
@@ -354,11 +480,15 @@ export function DebugGUI() {
             name: slot.name,
             timestamp: new Date(slot.timestamp).toLocaleString(),
             load: () => {
-              if (loadGame(slot.id)) {
+              if (loadGame(slot.id).ok) {
                 saveSettings.currentSave = slot.id;
                 console.log(t('ui.debugPanel.saveSystem.loadedSave', { name: slot.name }));
               }
             },
+            export: () => {
+              const data = getSaveData(slot.id);
+              if (data) downloadSaveExport(data);
+            },
             delete: () => {
               if (confirm(t('ui.debugPanel.saveSystem.deleteConfirm', { name: slot.name }))) {
                 deleteSave(slot.id);
@@ -373,6 +503,7 @@ export function DebugGUI() {
           slotFolder.add(slotObj, 'name').disable();
           slotFolder.add(slotObj, 'timestamp').disable();
           slotFolder.add(slotObj, 'load').name(t('ui.debugPanel.saveSystem.loadThisSave'));
+          slotFolder.add(slotObj, 'export').name(t('ui.debugPanel.saveSystem.exportThisSave'));
           slotFolder.add(slotObj, 'delete').name(t('ui.debugPanel.saveSystem.deleteThisSave'));
           slotFolder.close();
         });
@@ -392,18 +523,48 @@ export function DebugGUI() {
       // Update current save display
       saveSettings.currentSave = currentSaveId || t('ui.debugPanel.saveSystem.none');
       
-      // Update player position display
-      const storeState = useGameStore.getState();
-      if (storeState.playerTeleportTarget) {
-        const pos = storeState.playerTeleportTarget;
-        saveSettings.playerPosition = `${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)}`;
-      }
+      // Update player position display (live pose from the physics body)
+      const pos = peekLivePlayer().position ?? useGameStore.getState().playerPosition;
+      saveSettings.playerPosition = `${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)}`;
       
       // Update auto-save settings
       saveSettings.autoSave = autoSaveEnabled;
       saveSettings.autoSaveInterval = autoSaveInterval;
     }
     
+    // ========================================================================
+    // REWIND HISTORY FOLDER
+    // ========================================================================
+    const historyFolder = saveFolder.addFolder(t('ui.debugPanel.saveSystem.history'));
+    let historyListFolder: GUI | null = null;
+    let shownHistoryId: string | undefined;
+
+    // Rebuilds the rewind buttons only when a new entry has been recorded
+    function refreshHistoryList() {
+      const { history } = useGameStore.getState();
+      const newestId = history[history.length - 1]?.id;
+      if (historyListFolder && newestId === shownHistoryId) return;
+      shownHistoryId = newestId;
+
+      historyListFolder?.destroy();
+      historyListFolder = historyFolder.addFolder(t('ui.debugPanel.saveSystem.recentHistory'));
+
+      if (history.length === 0) {
+        historyListFolder.add({ message: t('ui.history.empty') }, 'message').disable();
+        return;
+      }
+
+      history.slice(-10).reverse().forEach((entry) => {
+        const time = new Date(entry.timestamp).toLocaleTimeString();
+        historyListFolder!
+          .add({ rewind: () => useGameStore.getState().rewindTo(entry.id) }, 'rewind')
+          .name(`⏪ ${time} ${t(`ui.history.event.${entry.event}`)} (💰 ${entry.snapshot.money})`);
+      });
+    }
+
+    refreshHistoryList();
+    historyFolder.close();
+
     // Set up periodic refresh
     let frameCount = 0;
     const autoRefresh = () => {
@@ -411,6 +572,7 @@ export function DebugGUI() {
       
       if (frameCount % 120 === 0) { // Check every 2 seconds at 60fps
         refreshSaveList();
+        refreshHistoryList();
       }
       
       requestAnimationFrame(autoRefresh);
@@ -429,12 +591,13 @@ export function DebugGUI() {
       guiRef.current = null;
       themeStateRef.current = null;
       saveListFolderRef.current = null;
+      fairnessRun.onChange = null;
     };
   }, [
     camera, currentRoom, setCurrentRoom, money, setMoney, toggleTheme, 
-    isDarkMode, autoSaveEnabled, autoSaveInterval, clearAllSaves, 
-    currentSaveId, deleteSave, listSaves, loadGame, playerTeleportTarget, 
-    saveGame, setAutoSaveInterval, toggleAutoSave, language, setLanguage, 
+    isDarkMode, autoSaveEnabled, autoSaveInterval, clearAllSaves, cleanupOrphanSaves,
+    currentSaveId, deleteSave, getSaveData, importSave, listSaves, loadGame, quickSave, 
+    setAutoSaveInterval, toggleAutoSave, language, setLanguage, 
     t, isRTL
   ]);
 
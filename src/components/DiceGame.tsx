@@ -1,11 +1,26 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
-import * as CANNON from 'cannon-es';
 import { Text } from '@react-three/drei';
 import { useGameStore } from '../hooks/useGameStore';
 import { useKeyboard } from '../hooks/useKeyboard';
 import { useTheme } from '../hooks/useTheme';
+import type { DiceThrow } from '../types';
+import { rng } from '../utils/rng';
+import { addContactMaterial, addPhysicsBodies } from '../physics/physicsWorld';
+import {
+  DICE_CONFIG,
+  DICE_CONTACTS,
+  applyHandThrow,
+  applyRandomRoll,
+  createDiceBodies,
+  isAgainstWall,
+  isCocked,
+  isDiceResting,
+  readDice,
+  type DiceReading,
+  type DiceState,
+} from '../physics/dicePhysics';
 
 
 // ============================================================================
@@ -16,38 +31,9 @@ interface DiceGameProps {
   zoneSize: [number, number, number];
 }
 
-interface DiceState {
-  body: CANNON.Body;
-  mesh: THREE.Group | null;
-  value: number;
-}
-
 // ============================================================================
 // GAME CONSTANTS
 // ============================================================================
-const DICE_CONFIG = {
-  SIZE: 0.5,
-  HALF_SIZE: 0.251, // SIZE / 2 + 0.001
-  PHYSICS: {
-    WALL_HEIGHT: 2,
-    WALL_THICKNESS: 0.2,
-    SETTLE_THRESHOLD: 0.1,
-    PROXIMITY_RADIUS: 6,
-  },
-  TIMING: {
-    MAX_ROLL_TIME: 5,
-  }
-} as const;
-
-const DICE_FACES = [
-  { normal: new THREE.Vector3(0, 1, 0), value: 1 },   // Top
-  { normal: new THREE.Vector3(0, -1, 0), value: 6 },  // Bottom
-  { normal: new THREE.Vector3(1, 0, 0), value: 3 },   // Right
-  { normal: new THREE.Vector3(-1, 0, 0), value: 4 },  // Left
-  { normal: new THREE.Vector3(0, 0, 1), value: 2 },   // Front
-  { normal: new THREE.Vector3(0, 0, -1), value: 5 },  // Back
-] as const;
-
 const DICE_FACE_NUMBERS = [
   { position: [0, DICE_CONFIG.HALF_SIZE, 0] as [number, number, number], rotation: [-Math.PI / 2, 0, 0] as [number, number, number], value: "1" },
   { position: [0, -DICE_CONFIG.HALF_SIZE, 0] as [number, number, number], rotation: [Math.PI / 2, 0, 0] as [number, number, number], value: "6" },
@@ -57,54 +43,6 @@ const DICE_FACE_NUMBERS = [
   { position: [0, 0, -DICE_CONFIG.HALF_SIZE] as [number, number, number], rotation: [0, Math.PI, 0] as [number, number, number], value: "5" },
 ] as const;
 
-// ============================================================================
-// HELPER FUNCTIONS
-// ============================================================================
-const getDiceValue = (quaternion: THREE.Quaternion): number => {
-  const up = new THREE.Vector3(0, 1, 0);
-  let maxDot = -Infinity;
-  let value = 1;
-
-  for (const face of DICE_FACES) {
-    const rotatedNormal = face.normal.clone().applyQuaternion(quaternion);
-    const dot = rotatedNormal.dot(up);
-    if (dot > maxDot) {
-      maxDot = dot;
-      value = face.value;
-    }
-  }
-
-  return value;
-};
-
-const createDiceBodies = (
-  world: CANNON.World, 
-  position: [number, number, number],
-  diceMaterial: CANNON.Material
-): DiceState[] => {
-  const diceStates: DiceState[] = [];
-  const diceShape = new CANNON.Box(new CANNON.Vec3(DICE_CONFIG.SIZE / 2, DICE_CONFIG.SIZE / 2, DICE_CONFIG.SIZE / 2));
-  const offsets = [[-0.6, 0], [0.6, 0]] as const;
-  
-  for (let i = 0; i < 2; i++) {
-    const diceBody = new CANNON.Body({
-      mass: 1,
-      position: new CANNON.Vec3(position[0] + offsets[i][0], position[1] + 0.5, position[2]),
-      shape: diceShape,
-      material: diceMaterial,
-    });
-    world.addBody(diceBody);
-    
-    diceStates.push({
-      body: diceBody,
-      mesh: null,
-      value: 1,
-    });
-  }
-  
-  return diceStates;
-};
-
 // ============================================================================
 // VISUAL COMPONENTS
 // ============================================================================
@@ -194,7 +132,6 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
   
   // PHYSICS & GAME STATE REFERENCES
   // --------------------------------------------------------------------------
-  const worldRef = useRef<CANNON.World | null>(null);
   const diceStatesRef = useRef<DiceState[]>([]);
   const rollTimeRef = useRef(0);
   const hasSettledRef = useRef(false);
@@ -209,94 +146,88 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
     setIsRolling,
     setDiceResult,
     isLocked,
-    currentBet,
-    betAmount,
-    addMoney,
-    setCurrentBet,
-    setBetAmount,
+    diceCount,
+    diceRerolls,
+    voidDiceRoll,
+    refundDiceRoll,
+    resolveDiceRoll,
+    exitDiceGame,
     isMiniGameActive,
     setIsMiniGameActive,
     shouldTriggerRoll,
     clearTriggerRoll,
-    lastBetForResult,
-    lastBetAmountForResult,
   } = useGameStore();
 
   // ==========================================================================
   // GAME LOGIC FUNCTIONS
   // ==========================================================================
   
+  // HAND THROW
+  // --------------------------------------------------------------------------
+  const throwByHand = useCallback((gesture: DiceThrow) => {
+    const yaw = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ').y;
+    applyHandThrow(diceStatesRef.current, position, gesture, yaw);
+  }, [camera, position]);
+
   // DICE ROLL EXECUTION
   // --------------------------------------------------------------------------
   const executeRoll = useCallback(() => {
-    if (!worldRef.current || diceStatesRef.current.length === 0) return;
+    if (diceStatesRef.current.length === 0) return;
     
     // Reset roll state
     setIsRolling(true);
     hasSettledRef.current = false;
     rollTimeRef.current = 0;
     setDiceResult(null);
+
+    // Read fresh: a void re-roll clears the gesture in the same tick
+    const gesture = useGameStore.getState().pendingDiceThrow;
+    if (gesture) {
+      throwByHand(gesture);
+      return;
+    }
     
-    // Dice starting offsets (two dice side by side)
-    const offsets = [[-0.8, 0], [0.8, 0]];
-    
-    // Apply physics to each dice
-    diceStatesRef.current.forEach((dice, i) => {
-      // Position above the table
-      dice.body.position.set(position[0] + offsets[i][0], position[1] + 2.5, position[2]);
-      
-      // Random initial rotation
-      dice.body.quaternion.setFromEuler(
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2,
-        Math.random() * Math.PI * 2
-      );
-      
-      // Apply initial velocity and spin
-      dice.body.velocity.set(
-        (Math.random() - 0.5) * 5,
-        -5,
-        (Math.random() - 0.5) * 5
-      );
-      
-      dice.body.angularVelocity.set(
-        (Math.random() - 0.5) * 20,
-        (Math.random() - 0.5) * 20,
-        (Math.random() - 0.5) * 20
-      );
-    });
-  }, [position, setDiceResult, setIsRolling]);
+    // Seeded, so a given seed replays the same impulses
+    applyRandomRoll(diceStatesRef.current, position, rng('dice'));
+  }, [position, setDiceResult, setIsRolling, throwByHand]);
 
   // RESULT PROCESSING
   // --------------------------------------------------------------------------
-  const processRollResult = useCallback((newValues: number[]) => {
+  const processRollResult = useCallback((readings: DiceReading[], settled: boolean) => {
     hasSettledRef.current = true;
+
+    // Void roll: a die is cocked, leaning on a wall or never came to rest
+    const isVoid = !settled || readings.some((reading, i) => (
+      isCocked(reading) ||
+      isAgainstWall(diceStatesRef.current[i].body, position, zoneSize)
+    ));
+    if (isVoid) {
+      if (diceRerolls < DICE_CONFIG.COCKED.MAX_REROLLS) {
+        voidDiceRoll();
+        executeRoll();
+      } else {
+        refundDiceRoll();
+      }
+      return;
+    }
+
     setIsRolling(false);
+    const newValues = readings.map(reading => reading.value);
     
-    // Calculate and store result
-    const total = newValues[0] + newValues[1];
+    // Calculate and store result (dice3 stays 0 with two dice)
+    const total = newValues.reduce((sum, value) => sum + value, 0);
     const result = {
       dice1: newValues[0],
       dice2: newValues[1],
-      dice3: 0, // For compatibility with craps
+      dice3: newValues[2] ?? 0,
       total,
     };
     
     setDiceResult(result);
     
-    // Check bet result
-    const bet = lastBetForResult;
-    const amount = lastBetAmountForResult;
-    
-    if (bet === total) {
-      const winnings = amount * 2;
-      addMoney(winnings);
-    }
-    
-    // Clear bet
-    setCurrentBet(null);
-    setBetAmount(0);
-  }, [setDiceResult, setIsRolling, addMoney, lastBetForResult, lastBetAmountForResult, setCurrentBet, setBetAmount]);
+    // Pay out every bet on the board
+    resolveDiceRoll(result);
+  }, [diceRerolls, executeRoll, position, zoneSize, refundDiceRoll, resolveDiceRoll, setDiceResult, setIsRolling, voidDiceRoll]);
 
   // PROXIMITY CHECK LOGIC
   // --------------------------------------------------------------------------
@@ -309,9 +240,7 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
     if (isNear !== isNearMiniGame) {
       setIsNearMiniGame(isNear);
       if (!isNear) {
-        setIsMiniGameActive(false);
-        setCurrentBet(null);
-        setBetAmount(0);
+        exitDiceGame();
       }
     }
     
@@ -332,8 +261,7 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
     resetInteract, 
     setIsNearMiniGame, 
     setIsMiniGameActive, 
-    setCurrentBet, 
-    setBetAmount,
+    exitDiceGame,
     isMiniGameActive
   ]);
 
@@ -344,7 +272,7 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
     
     rollTimeRef.current += delta;
     let allSettled = true;
-    const newValues: number[] = [];
+    const readings: DiceReading[] = [];
 
     diceStatesRef.current.forEach((dice) => {
       // Update mesh position
@@ -354,26 +282,17 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
       }
 
       // Check if dice has settled
-      const speed = dice.body.velocity.length();
-      const angularSpeed = dice.body.angularVelocity.length();
-      
-      if (speed > DICE_CONFIG.PHYSICS.SETTLE_THRESHOLD || angularSpeed > DICE_CONFIG.PHYSICS.SETTLE_THRESHOLD) {
+      if (!isDiceResting(dice.body)) {
         allSettled = false;
       }
 
       // Calculate current face value
-      const quat = new THREE.Quaternion(
-        dice.body.quaternion.x,
-        dice.body.quaternion.y,
-        dice.body.quaternion.z,
-        dice.body.quaternion.w
-      );
-      newValues.push(getDiceValue(quat));
+      readings.push(readDice(dice.body));
     });
 
     // Settle detection
     if ((allSettled || rollTimeRef.current > DICE_CONFIG.TIMING.MAX_ROLL_TIME) && !hasSettledRef.current) {
-      processRollResult(newValues);
+      processRollResult(readings, allSettled);
     }
   }, [isRolling, processRollResult]);
 
@@ -397,106 +316,38 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === 'KeyQ' && isMiniGameActive) {
-        setIsMiniGameActive(false);
-        
-        // Refund any active bet
-        if (currentBet !== null && betAmount > 0) {
-          addMoney(betAmount);
-          setCurrentBet(null);
-          setBetAmount(0);
-        }
-        
+        exitDiceGame();
         gl.domElement.requestPointerLock();
       }
     };
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isMiniGameActive, currentBet, betAmount, addMoney, setCurrentBet, setBetAmount, setIsMiniGameActive, gl]);
+  }, [isMiniGameActive, exitDiceGame, gl]);
 
   // PHYSICS WORLD INITIALIZATION
   // --------------------------------------------------------------------------
   useEffect(() => {
     if (currentRoom !== 'minigame1') return;
 
-    const world = new CANNON.World();
-    world.gravity.set(0, -30, 0);
-    world.broadphase = new CANNON.NaiveBroadphase();
-    
-    // Materials
-    const diceMaterial = new CANNON.Material('dice');
-    const groundMaterial = new CANNON.Material('ground');
-    const wallMaterial = new CANNON.Material('wall');
-    
-    // Contact materials
-    const diceGroundContact = new CANNON.ContactMaterial(diceMaterial, groundMaterial, {
-      friction: 0.5,
-      restitution: 0.3,
-    });
-    world.addContactMaterial(diceGroundContact);
-    
-    const diceWallContact = new CANNON.ContactMaterial(diceMaterial, wallMaterial, {
-      friction: 0.1,
-      restitution: 0.5,
-    });
-    world.addContactMaterial(diceWallContact);
-
-    // ENVIRONMENT BODIES
-    // Ground
-    const groundBody = new CANNON.Body({
-      mass: 0,
-      position: new CANNON.Vec3(position[0], position[1] + 0.05, position[2]),
-      shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, 0.1, zoneSize[2] / 2)),
-      material: groundMaterial,
-    });
-    world.addBody(groundBody);
-
-    // Walls (containment)
-    const northWall = new CANNON.Body({
-      mass: 0,
-      position: new CANNON.Vec3(position[0], position[1] + DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2] - zoneSize[2] / 2),
-      shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, DICE_CONFIG.PHYSICS.WALL_THICKNESS / 2)),
-      material: wallMaterial,
-    });
-    world.addBody(northWall);
-    
-    const southWall = new CANNON.Body({
-      mass: 0,
-      position: new CANNON.Vec3(position[0], position[1] + DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2] + zoneSize[2] / 2),
-      shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, DICE_CONFIG.PHYSICS.WALL_THICKNESS / 2)),
-      material: wallMaterial,
-    });
-    world.addBody(southWall);
-    
-    const eastWall = new CANNON.Body({
-      mass: 0,
-      position: new CANNON.Vec3(position[0] + zoneSize[0] / 2, position[1] + DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2]),
-      shape: new CANNON.Box(new CANNON.Vec3(DICE_CONFIG.PHYSICS.WALL_THICKNESS / 2, DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, zoneSize[2] / 2)),
-      material: wallMaterial,
-    });
-    world.addBody(eastWall);
-    
-    const westWall = new CANNON.Body({
-      mass: 0,
-      position: new CANNON.Vec3(position[0] - zoneSize[0] / 2, position[1] + DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, position[2]),
-      shape: new CANNON.Box(new CANNON.Vec3(DICE_CONFIG.PHYSICS.WALL_THICKNESS / 2, DICE_CONFIG.PHYSICS.WALL_HEIGHT / 2, zoneSize[2] / 2)),
-      material: wallMaterial,
-    });
-    world.addBody(westWall);
-
-    // DICE BODIES
-    const diceStates = createDiceBodies(world, position, diceMaterial);
+    // The dice join the shared world: the room's floor and zone walls
+    // (see Room.tsx) are the table and its containment
+    const diceStates = createDiceBodies(position, diceCount);
+    const releases = [
+      addContactMaterial('dice', 'ground', DICE_CONTACTS.ground),
+      addContactMaterial('dice', 'wall', DICE_CONTACTS.wall),
+      addPhysicsBodies(diceStates.map(dice => dice.body), { gravity: DICE_CONFIG.PHYSICS.GRAVITY }),
+    ];
 
     // Store references
-    worldRef.current = world;
     diceStatesRef.current = diceStates;
 
     // Cleanup
     return () => {
-      worldRef.current = null;
+      releases.forEach(release => release());
       diceStatesRef.current = [];
     };
-  }, [currentRoom, position, zoneSize]);
+  }, [currentRoom, diceCount, position]);
 
   // ROLL TRIGGER HANDLER
   // --------------------------------------------------------------------------
@@ -516,15 +367,11 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
     // PROXIMITY CHECK & GAME ENTRY
     handleProximityCheck();
     
-    // PHYSICS SIMULATION
-    if (worldRef.current) {
-      worldRef.current.step(1 / 60, delta, 3);
-      
-      if (isRolling) {
-        handleRollingPhysics(delta);
-      } else {
-        updateDiceMeshes();
-      }
+    // DICE UPDATE (the shared world has already stepped this frame)
+    if (isRolling) {
+      handleRollingPhysics(delta);
+    } else {
+      updateDiceMeshes();
     }
   });
 
@@ -557,14 +404,14 @@ export function DiceGame({ position, zoneSize }: DiceGameProps) {
       <DiceTableWalls position={position} zoneSize={zoneSize} />
 
       {/* Dice */}
-      {[0, 1].map((i) => (
+      {DICE_CONFIG.REST_OFFSETS[diceCount].map(([x, z], i) => (
         <Dice 
-          key={i} 
+          key={`${diceCount}_${i}`} 
           diceRef={setDiceMeshRef(i)}
           initialPosition={[
-            position[0] + (i === 0 ? -0.6 : 0.6),
+            position[0] + x,
             position[1] + 0.5,
-            position[2]
+            position[2] + z
           ]}
         />
       ))}
@@ -0,0 +1,113 @@
+import { useRef, useState, type PointerEvent } from 'react';
+import type { DiceThrow } from '../types';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+interface DiceThrowPadProps {
+  onThrow: (gesture: DiceThrow) => void;
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+// ============================================================================
+// GESTURE CONSTANTS
+// ============================================================================
+const GESTURE = {
+  MIN_LENGTH: 15,        // px; shorter drags are treated as clicks
+  FLICK_WINDOW: 80,      // ms of movement used to measure release speed
+  FULL_FLICK_SPEED: 2,   // px/ms for a full-strength flick
+} as const;
+
+// Strength blends drag length and release speed so both a slow drag and a
+// short flick can throw hard
+function readGesture(samples: Sample[], padSize: number): DiceThrow | null {
+  const start = samples[0];
+  const end = samples[samples.length - 1];
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  if (length < GESTURE.MIN_LENGTH) return null;
+
+  const flickFrom = samples.find(s => end.t - s.t <= GESTURE.FLICK_WINDOW) ?? start;
+  const flickTime = Math.max(1, end.t - flickFrom.t);
+  const speed = Math.hypot(end.x - flickFrom.x, end.y - flickFrom.y) / flickTime;
+  const strength = Math.min(1, 0.5 * Math.min(1, length / padSize) + 0.5 * Math.min(1, speed / GESTURE.FULL_FLICK_SPEED));
+
+  // Spin from how much the path bends: sine of the turn at its midpoint
+  const mid = samples[Math.floor(samples.length / 2)];
+  const ax = mid.x - start.x, ay = mid.y - start.y;
+  const bx = end.x - mid.x, by = end.y - mid.y;
+  const bend = Math.hypot(ax, ay) * Math.hypot(bx, by);
+  const spin = bend > 0 ? (ax * by - ay * bx) / bend : 0;
+
+  return { dirX: dx / length, dirY: -dy / length, strength, spin };
+}
+
+// ============================================================================
+// DICE THROW PAD COMPONENT
+// ============================================================================
+// Drag or flick across the pad toward the table: direction, strength and
+// spin of the throw all come from the gesture
+export function DiceThrowPad({ onThrow }: DiceThrowPadProps) {
+  // LOCAL STATE
+  const samplesRef = useRef<Sample[]>([]);
+  const [path, setPath] = useState<{ from: Sample; to: Sample } | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+  const pointAt = (e: PointerEvent<HTMLDivElement>): Sample => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top, t: e.timeStamp };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointAt(e);
+    samplesRef.current = [point];
+    setPath({ from: point, to: point });
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!path) return;
+    const point = pointAt(e);
+    samplesRef.current.push(point);
+    setPath({ from: path.from, to: point });
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+    if (!path) return;
+    samplesRef.current.push(pointAt(e));
+    const { width, height } = e.currentTarget.getBoundingClientRect();
+    const gesture = readGesture(samplesRef.current, Math.max(width, height));
+    samplesRef.current = [];
+    setPath(null);
+    if (gesture) onThrow(gesture);
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  return (
+    <div
+      className="dice-throw-pad"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setPath(null)}
+    >
+      {path ? (
+        <svg className="dice-throw-arrow">
+          <line x1={path.from.x} y1={path.from.y} x2={path.to.x} y2={path.to.y} />
+        </svg>
+      ) : (
+        <span>Drag or flick toward the table to throw</span>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
-import { Canvas } from '@react-three/fiber';
+import { useEffect } from 'react';
+import { Canvas, useThree } from '@react-three/fiber';
 import { useGameStore } from '../hooks/useGameStore';
 import { usePhysics } from '../hooks/usePhysics';
 import { ROOM_CONFIGS } from '../config/rooms';
 import { Player } from './Player';
 import { Room } from './Room';
 import { DebugGUI } from './DebugGUI';
+import { setThumbnailSource } from '../save/saveThumbnail';
 
 // ============================================================================
 // GAME SCENE COMPONENT
@@ -14,6 +16,7 @@ function GameScene() {
   // STATE & CONFIGURATION
   const { currentRoom } = useGameStore();
   const roomConfig = ROOM_CONFIGS[currentRoom];
+  const { gl } = useThree();
   
   // PHYSICS HOOK
   const { 
@@ -22,10 +25,15 @@ function GameScene() {
     wallMaterial, 
     addBody, 
     removeBody, 
-    clearBodies, 
-    step 
+    clearBodies 
   } = usePhysics();
 
+  // SAVE THUMBNAIL SOURCE
+  useEffect(() => {
+    setThumbnailSource(gl.domElement);
+    return () => setThumbnailSource(null);
+  }, [gl]);
+
   // ==========================================================================
   // RENDER
   // ==========================================================================
@@ -42,7 +50,7 @@ function GameScene() {
       />
       
       {/* PLAYER CHARACTER */}
-      <Player playerBody={playerBody} physicsStep={step} />
+      <Player playerBody={playerBody} />
       
       {/* DEBUG INTERFACE */}
       <DebugGUI />
@@ -65,6 +73,8 @@ export function Game() {
   return (
     <Canvas
       camera={{ fov: 75, near: 0.1, far: 1000 }}
+      // Keep the last frame readable so saves can capture a thumbnail
+      gl={{ preserveDrawingBuffer: true }}
       style={{ width: '100vw', height: '100vh' }}
     >
       <GameScene />
@@ -0,0 +1,54 @@
+import { useGameStore } from '../hooks/useGameStore';
+import { useI18n } from '../hooks/useI18n';
+import type { HistoryEntry } from '../save/saveHistory';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+interface HistoryTimelineProps {
+  onRewind: () => void;
+}
+
+// ============================================================================
+// HISTORY TIMELINE COMPONENT
+// ============================================================================
+// Newest first; each row restores the progress captured at that moment
+export function HistoryTimeline({ onRewind }: HistoryTimelineProps) {
+  // STATE
+  const { history, rewindTo } = useGameStore();
+  const { t } = useI18n();
+
+  // Room and minigame ids read better as their display names
+  const describe = (entry: HistoryEntry) => {
+    const label = t(`ui.history.event.${entry.event}`);
+    if (!entry.detail) return label;
+    const detail = entry.event === 'loaded' || entry.event === 'rewound'
+      ? entry.detail
+      : t(`ui.roomIndicator.${entry.detail}`);
+    return `${label}: ${detail}`;
+  };
+
+  const handleRewind = (entryId: string) => {
+    if (rewindTo(entryId)) onRewind();
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  if (history.length === 0) {
+    return <p className="save-browser-empty">{t('ui.history.empty')}</p>;
+  }
+
+  return (
+    <ol className="history-timeline">
+      {[...history].reverse().map((entry) => (
+        <li key={entry.id} className="history-entry">
+          <span className="history-time">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+          <span className="history-event">{describe(entry)}</span>
+          <span className="history-money">💰 {entry.snapshot.money.toLocaleString()}</span>
+          <button onClick={() => handleRewind(entry.id)}>{t('ui.history.rewind')}</button>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -5,6 +5,8 @@ import * as CANNON from 'cannon-es';
 import { useKeyboard } from '../hooks/useKeyboard';
 import { useGameStore } from '../hooks/useGameStore';
 import { PLAYER_CONFIG, ROOM_CONFIGS, PORTAL_CONFIG } from '../config/rooms';
+import { getSaveStorage, LAST_QUICKSAVE_KEY } from '../save/saveStorage';
+import { addLivePlaytime, sampleLivePose } from '../utils/livePlayer';
 
 // ============================================================================
 // FIXED STAMINA CONFIG (NO REGEN)
@@ -17,12 +19,14 @@ const STAMINA_CONFIG = {
   minStaminaToMove: 0.1,
 };
 
+// How often (seconds) the live body pose is written to the store
+const POSE_SYNC_INTERVAL = 0.25;
+
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 interface PlayerProps {
   playerBody: React.MutableRefObject<CANNON.Body | null>;
-  physicsStep: (delta: number) => void;
 }
 
 interface DebugState {
@@ -35,7 +39,7 @@ interface DebugState {
 // ============================================================================
 // MAIN PLAYER COMPONENT
 // ============================================================================
-export function Player({ playerBody, physicsStep }: PlayerProps) {
+export function Player({ playerBody }: PlayerProps) {
   
   // HOOKS & EXTERNAL DEPENDENCIES
   const { camera, gl } = useThree();
@@ -54,6 +58,9 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
   const stepAccumulatorRef = useRef(0);
   const stepsRef = useRef(0);
 
+  // LIVE POSE SYNC TIMER
+  const poseSyncAccumulatorRef = useRef(0);
+
   // DEBUG TRACKING STATE
   const debugRef = useRef<DebugState>({
     prevYaw: 0,
@@ -73,9 +80,13 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
     isLocked,
     playerTeleportTarget,
     setPlayerTeleportTarget,
+    playerLookTarget,
+    setPlayerLookTarget,
     isBasketballActive,
     saveGame,
     loadGame,
+    checkAutoSave,
+    setSaveMenuOpen,
     spawnedBoxes,
     collectedBoxes,
     collectRewardBox,
@@ -133,6 +144,15 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
     }
   }, [gl, requestPointerLock]);
 
+  // LIVE POSE SYNC
+  // --------------------------------------------------------------------------
+  const syncPose = useCallback((body: CANNON.Body) => {
+    sampleLivePose(
+      { x: body.position.x, y: body.position.y, z: body.position.z },
+      { yaw: yawRef.current, pitch: pitchRef.current }
+    );
+  }, []);
+
   // ==========================================================================
   // USE EFFECTS
   // ==========================================================================
@@ -161,18 +181,14 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
       // Quick save (F5)
       if (e.code === 'F5') {
         e.preventDefault();
-        const position = {
-          x: body.position.x,
-          y: body.position.y,
-          z: body.position.z,
-        };
-        saveGame(position, 'quick');
+        syncPose(body);
+        saveGame(undefined, 'quick');
       }
 
       // Quick Load (F9)
       if (e.code === 'F9') {
         e.preventDefault();
-        const lastQuickSaveId = localStorage.getItem('mini3d_last_quicksave');
+        const lastQuickSaveId = getSaveStorage().getItem(LAST_QUICKSAVE_KEY);
         if (lastQuickSaveId) {
           loadGame(lastQuickSaveId);
         } else {
@@ -183,19 +199,15 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
       // Manual save (Ctrl+S)
       if (e.ctrlKey && e.code === 'KeyS') {
         e.preventDefault();
-        const position = {
-          x: body.position.x,
-          y: body.position.y,
-          z: body.position.z,
-        };
-        const saveName = prompt('Save name (optional):') || undefined;
-        saveGame(position, 'manual', saveName);
+        syncPose(body);
+        document.exitPointerLock();
+        setSaveMenuOpen(true);
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [playerBody, saveGame, loadGame]); 
+  }, [playerBody, saveGame, loadGame, syncPose, setSaveMenuOpen]); 
 
   // ROOM TRANSITION HANDLER
   // --------------------------------------------------------------------------
@@ -251,15 +263,36 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
     setPlayerTeleportTarget(null);
   }, [playerTeleportTarget, playerBody, camera, setPlayerTeleportTarget]);
 
+  // LOOK DIRECTION RESTORE (after loading a save)
+  // --------------------------------------------------------------------------
+  useEffect(() => {
+    if (!playerLookTarget) return;
+
+    yawRef.current = playerLookTarget.yaw;
+    pitchRef.current = playerLookTarget.pitch;
+    camera.quaternion.setFromEuler(
+      new THREE.Euler(pitchRef.current, yawRef.current, 0, 'YXZ')
+    );
+
+    debugRef.current.prevYaw = yawRef.current;
+    debugRef.current.prevPitch = pitchRef.current;
+
+    setPlayerLookTarget(null);
+  }, [playerLookTarget, camera, setPlayerLookTarget]);
+
   // ==========================================================================
   // GAME LOOP (useFrame)
   // ==========================================================================
   useFrame((_, delta) => {
     const body = playerBody.current;
-    if (!body || !isLocked) return;
+    if (!body) return;
 
-    // PHYSICS STEP
-    physicsStep(delta);
+    // The shared world keeps stepping while a minigame has the mouse, so
+    // stop the player where they stood instead of sliding on
+    if (!isLocked) {
+      body.velocity.set(0, body.velocity.y, 0);
+      return;
+    }
 
     // CAMERA ROTATION
     const debug = debugRef.current;
@@ -373,6 +406,18 @@ export function Player({ playerBody, physicsStep }: PlayerProps) {
       body.position.z
     );
 
+    // LIVE POSE SYNC, PLAYTIME & INTERVAL AUTO-SAVE (throttled)
+    // ------------------------------------------------------------------------
+    poseSyncAccumulatorRef.current += delta;
+    if (poseSyncAccumulatorRef.current >= POSE_SYNC_INTERVAL) {
+      addLivePlaytime(poseSyncAccumulatorRef.current);
+      poseSyncAccumulatorRef.current = 0;
+      syncPose(body);
+      if (checkAutoSave()) {
+        saveGame(undefined, 'auto');
+      }
+    }
+
     // PORTAL DETECTION
     // ------------------------------------------------------------------------
     const roomConfig = ROOM_CONFIGS[currentRoom];
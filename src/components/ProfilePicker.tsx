@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { useProfileStore } from '../hooks/useProfileStore';
+import { useI18n } from '../hooks/useI18n';
+import { formatPlaytime } from '../utils/format';
+
+// ============================================================================
+// PROFILE PICKER COMPONENT
+// ============================================================================
+// Shown on the start screen so players sharing a machine keep separate saves
+export function ProfilePicker() {
+  // STATE
+  const {
+    profiles,
+    activeProfileId,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+    selectProfile,
+  } = useProfileStore();
+  const { t } = useI18n();
+
+  // LOCAL STATE
+  const [newProfileName, setNewProfileName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+  const handleCreate = () => {
+    const profileId = createProfile(newProfileName);
+    if (profileId) {
+      setNewProfileName('');
+      selectProfile(profileId);
+    }
+  };
+
+  const handleRename = () => {
+    if (renamingId && renameProfile(renamingId, renameValue)) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleDelete = (profileId: string) => {
+    deleteProfile(profileId);
+    setDeletingId(null);
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  return (
+    <div className="profile-picker">
+      <h3>{t('ui.profiles.title')}</h3>
+
+      <div className="profile-list">
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfileId;
+          const { sessions, playtime, lastPlayedAt } = profile.stats;
+
+          return (
+            <div
+              key={profile.id}
+              className={`profile-card ${isActive ? 'active' : ''}`}
+              onClick={() => !isActive && selectProfile(profile.id)}
+            >
+              {renamingId === profile.id ? (
+                <input
+                  type="text"
+                  value={renameValue}
+                  maxLength={24}
+                  autoFocus
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onBlur={() => setRenamingId(null)}
+                />
+              ) : (
+                <div className="profile-name">{profile.name}</div>
+              )}
+
+              {/* STATISTICS */}
+              <div className="profile-stats">
+                <span>{t('ui.profiles.sessions', { count: String(sessions) })}</span>
+                <span>⏱ {formatPlaytime(playtime)}</span>
+                <span>
+                  {lastPlayedAt
+                    ? new Date(lastPlayedAt).toLocaleDateString()
+                    : t('ui.profiles.neverPlayed')}
+                </span>
+              </div>
+
+              {/* ACTIONS */}
+              {deletingId === profile.id ? (
+                <div className="profile-actions confirm" onClick={(e) => e.stopPropagation()}>
+                  <span>{t('ui.profiles.confirmDelete')}</span>
+                  <button className="danger" onClick={() => handleDelete(profile.id)}>
+                    {t('ui.profiles.yes')}
+                  </button>
+                  <button onClick={() => setDeletingId(null)}>{t('ui.profiles.no')}</button>
+                </div>
+              ) : (
+                <div className="profile-actions" onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => {
+                      setRenamingId(profile.id);
+                      setRenameValue(profile.name);
+                    }}
+                  >
+                    {t('ui.profiles.rename')}
+                  </button>
+                  {!isActive && (
+                    <button className="danger" onClick={() => setDeletingId(profile.id)}>
+                      {t('ui.profiles.delete')}
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* NEW PROFILE */}
+      <div className="profile-new">
+        <input
+          type="text"
+          value={newProfileName}
+          maxLength={24}
+          placeholder={t('ui.profiles.namePlaceholder')}
+          onChange={(e) => setNewProfileName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+        />
+        <button onClick={handleCreate} disabled={!newProfileName.trim()}>
+          {t('ui.profiles.create')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import { MiniGameZone } from './MiniGameZone';
 import { DiceGame } from './DiceGame';
 import { BasketballGame } from './BasketballGame';
 import { SimonGame } from './SimonGame';
-import { MINIGAME_ZONE_CONFIG } from '../config/rooms';
+import { MINIGAME_ZONE_CONFIG, MINIGAME_ZONE_WALLS } from '../config/rooms';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -146,8 +146,8 @@ export function Room({
     if (zoneConfig && (config.id === 'minigame1' || config.id === 'minigame2')) {
       const zonePos = zoneConfig.position;
       const zoneSize = zoneConfig.size;
-      const zoneWallHeight = config.id === 'minigame2' ? 4 : 2; // Higher walls for basketball
-      const zoneWallThickness = 0.1;
+      const zoneWallHeight = MINIGAME_ZONE_WALLS.height[config.id]; // Higher walls for basketball
+      const zoneWallThickness = MINIGAME_ZONE_WALLS.thickness;
 
       // Zone North Wall
       const zoneNorthWallShape = new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, zoneWallHeight / 2, zoneWallThickness / 2));
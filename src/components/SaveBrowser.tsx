@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { useGameStore } from '../hooks/useGameStore';
+import { useI18n } from '../hooks/useI18n';
+import { getSaveStorage, thumbnailKey } from '../save/saveStorage';
+import { formatPlaytime } from '../utils/format';
+import { HistoryTimeline } from './HistoryTimeline';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+interface SaveBrowserProps {
+  onClose: () => void;
+}
+
+interface PendingConfirm {
+  saveId: string;
+  action: 'overwrite' | 'delete';
+}
+
+// ============================================================================
+// SAVE / LOAD MENU COMPONENT
+// ============================================================================
+export function SaveBrowser({ onClose }: SaveBrowserProps) {
+  // STATE
+  const {
+    saveSlots,
+    currentSaveId,
+    saveGame,
+    loadGame,
+    overwriteSave,
+    renameSave,
+    deleteSave,
+  } = useGameStore();
+  const { t } = useI18n();
+
+  // LOCAL STATE
+  const [view, setView] = useState<'saves' | 'timeline'>('saves');
+  const [newSaveName, setNewSaveName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingConfirm, setPendingConfirm] = useState<PendingConfirm | null>(null);
+
+  // CLOSE ON ESCAPE
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+  const handleNewSave = () => {
+    if (saveGame(undefined, 'manual', newSaveName.trim() || undefined).ok) {
+      setNewSaveName('');
+    }
+  };
+
+  const handleLoad = (saveId: string) => {
+    if (loadGame(saveId).ok) {
+      onClose();
+    }
+  };
+
+  const handleStartRename = (saveId: string, name: string) => {
+    setPendingConfirm(null);
+    setRenamingId(saveId);
+    setRenameValue(name);
+  };
+
+  const handleRename = () => {
+    if (renamingId && renameSave(renamingId, renameValue).ok) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!pendingConfirm) return;
+    if (pendingConfirm.action === 'delete') {
+      deleteSave(pendingConfirm.saveId);
+    } else {
+      overwriteSave(pendingConfirm.saveId);
+    }
+    setPendingConfirm(null);
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  return (
+    <div className="fullscreen-overlay" onClick={(e) => e.stopPropagation()}>
+      <div className="save-browser">
+        <div className="panel-header">
+          <h3>{t('ui.saveBrowser.title')}</h3>
+          <button className="exit-button" onClick={onClose}>
+            ✕ {t('ui.saveBrowser.close')}
+          </button>
+        </div>
+
+        {/* VIEW TABS */}
+        <div className="save-browser-tabs">
+          <button className={view === 'saves' ? 'active' : ''} onClick={() => setView('saves')}>
+            {t('ui.saveBrowser.savesTab')}
+          </button>
+          <button className={view === 'timeline' ? 'active' : ''} onClick={() => setView('timeline')}>
+            {t('ui.saveBrowser.timelineTab')}
+          </button>
+        </div>
+
+        {view === 'timeline' ? (
+          <HistoryTimeline onRewind={onClose} />
+        ) : (
+          <>
+            {/* NEW MANUAL SAVE */}
+            <div className="save-browser-new">
+              <input
+                type="text"
+                value={newSaveName}
+                maxLength={40}
+                placeholder={t('ui.saveBrowser.namePlaceholder')}
+                onChange={(e) => setNewSaveName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleNewSave()}
+              />
+              <button onClick={handleNewSave}>{t('ui.saveBrowser.newSave')}</button>
+            </div>
+
+            {saveSlots.length === 0 ? (
+              <p className="save-browser-empty">{t('ui.saveBrowser.empty')}</p>
+            ) : (
+              <div className="save-browser-grid">
+                {saveSlots.map((slot) => {
+                  const isRenaming = renamingId === slot.id;
+                  const confirmAction = pendingConfirm?.saveId === slot.id ? pendingConfirm.action : null;
+                  const thumbnail = slot.hasThumbnail ? getSaveStorage().getItem(thumbnailKey(slot.id)) : null;
+
+                  return (
+                    <div
+                      key={slot.id}
+                      className={`save-card ${slot.id === currentSaveId ? 'current' : ''}`}
+                    >
+                      {/* THUMBNAIL */}
+                      {thumbnail ? (
+                        <img className="save-card-thumbnail" src={thumbnail} alt={slot.name} />
+                      ) : (
+                        <div className="save-card-thumbnail placeholder">🎮</div>
+                      )}
+
+                      {/* SLOT DETAILS */}
+                      <div className="save-card-info">
+                        {isRenaming ? (
+                          <input
+                            className="save-card-rename"
+                            type="text"
+                            value={renameValue}
+                            maxLength={40}
+                            autoFocus
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename();
+                              if (e.key === 'Escape') {
+                                e.stopPropagation();
+                                setRenamingId(null);
+                              }
+                            }}
+                          />
+                        ) : (
+                          <div className="save-card-name">{slot.name}</div>
+                        )}
+                        <div className="save-card-meta">
+                          <span>{t(`ui.saveBrowser.mode.${slot.mode}`)}</span>
+                          <span>{new Date(slot.timestamp).toLocaleString()}</span>
+                        </div>
+                        <div className="save-card-meta">
+                          <span>{slot.currentRoom ? t(`ui.roomIndicator.${slot.currentRoom}`) : '—'}</span>
+                          <span>💰 {slot.money !== undefined ? slot.money.toLocaleString() : '—'}</span>
+                          <span>⏱ {slot.playtime !== undefined ? formatPlaytime(slot.playtime) : '—'}</span>
+                        </div>
+                      </div>
+
+                      {/* SLOT ACTIONS */}
+                      {confirmAction ? (
+                        <div className="save-card-actions confirm">
+                          <span>
+                            {confirmAction === 'delete'
+                              ? t('ui.saveBrowser.confirmDelete')
+                              : t('ui.saveBrowser.confirmOverwrite')}
+                          </span>
+                          <button className="danger" onClick={handleConfirm}>{t('ui.saveBrowser.yes')}</button>
+                          <button onClick={() => setPendingConfirm(null)}>{t('ui.saveBrowser.no')}</button>
+                        </div>
+                      ) : isRenaming ? (
+                        <div className="save-card-actions">
+                          <button className="primary" onClick={handleRename}>{t('ui.saveBrowser.confirmRename')}</button>
+                          <button onClick={() => setRenamingId(null)}>{t('ui.saveBrowser.cancel')}</button>
+                        </div>
+                      ) : (
+                        <div className="save-card-actions">
+                          <button className="primary" onClick={() => handleLoad(slot.id)}>
+                            {t('ui.saveBrowser.load')}
+                          </button>
+                          <button onClick={() => setPendingConfirm({ saveId: slot.id, action: 'overwrite' })}>
+                            {t('ui.saveBrowser.overwrite')}
+                          </button>
+                          <button onClick={() => handleStartRename(slot.id, slot.name)}>
+                            {t('ui.saveBrowser.rename')}
+                          </button>
+                          <button className="danger" onClick={() => setPendingConfirm({ saveId: slot.id, action: 'delete' })}>
+                            {t('ui.saveBrowser.delete')}
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
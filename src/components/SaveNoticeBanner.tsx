@@ -0,0 +1,56 @@
+import { useGameStore } from '../hooks/useGameStore';
+import { useI18n } from '../hooks/useI18n';
+
+// ============================================================================
+// SAVE NOTICE BANNER
+// ============================================================================
+// Surfaces save failures (full storage, quarantined or missing saves) and,
+// when storage is full, offers to delete old auto/quick saves.
+export function SaveNoticeBanner() {
+  // STATE
+  const { saveNotice, pruneSaves, dismissSaveNotice, setSaveMenuOpen } = useGameStore();
+  const { t } = useI18n();
+
+  if (!saveNotice) return null;
+
+  const { error, saveName, pruneSuggestions } = saveNotice;
+  const name = saveName ?? t('ui.saveNotice.unnamed');
+
+  // ==========================================================================
+  // EVENT HANDLERS
+  // ==========================================================================
+  const handleManageSaves = () => {
+    dismissSaveNotice();
+    document.exitPointerLock();
+    setSaveMenuOpen(true);
+  };
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  return (
+    <div className={`save-notice ${error}`}>
+      <div className="save-notice-message">
+        {t(`ui.saveNotice.${error}`, { name })}
+      </div>
+      {error === 'quotaExceeded' && (
+        <div className="save-notice-hint">
+          {pruneSuggestions.length > 0
+            ? t('ui.saveNotice.pruneSuggestion', { count: String(pruneSuggestions.length) })
+            : t('ui.saveNotice.noPruneSuggestion')}
+        </div>
+      )}
+      <div className="save-notice-actions">
+        {pruneSuggestions.length > 0 && (
+          <button className="primary" onClick={() => pruneSaves(pruneSuggestions)}>
+            {t('ui.saveNotice.prune', { count: String(pruneSuggestions.length) })}
+          </button>
+        )}
+        {error === 'quotaExceeded' && (
+          <button onClick={handleManageSaves}>{t('ui.saveNotice.manage')}</button>
+        )}
+        <button onClick={dismissSaveNotice}>{t('ui.saveNotice.dismiss')}</button>
+      </div>
+    </div>
+  );
+}
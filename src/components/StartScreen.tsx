@@ -1,12 +1,15 @@
 import { useGameStore } from '../hooks/useGameStore';
+import { useProfileStore } from '../hooks/useProfileStore';
 import { useI18n } from '../hooks/useI18n';
+import { ProfilePicker } from './ProfilePicker';
 
 // ============================================================================
 // START SCREEN COMPONENT
 // ============================================================================
 export function StartScreen() {
   // GAME STATE
-  const { isPlaying, setIsPlaying } = useGameStore();
+  const { isPlaying, setIsPlaying, recordHistory } = useGameStore();
+  const { startSession } = useProfileStore();
   const { t } = useI18n();
 
   // RENDER GUARD
@@ -14,7 +17,9 @@ export function StartScreen() {
 
   // EVENT HANDLER
   const handleStart = () => {
+    startSession();
     setIsPlaying(true);
+    recordHistory('started');
   };
 
   // ==========================================================================
@@ -26,6 +31,9 @@ export function StartScreen() {
       <h1>{t('ui.startScreen.title')}</h1>
       <p>{t('ui.startScreen.subtitle')}</p>
 
+      {/* PROFILE SELECTION */}
+      <ProfilePicker />
+
       {/* START BUTTON */}
       <button className="start-button" onClick={handleStart}>
         {t('ui.startScreen.startButton')}
@@ -1,6 +1,102 @@
 import { useState, useEffect } from 'react';
 import { useGameStore } from '../hooks/useGameStore';
 import { useI18n } from '../hooks/useI18n';
+import { downloadSaveExport, pickSaveFile } from '../save/saveTransfer';
+import { SaveBrowser } from './SaveBrowser';
+import { SaveNoticeBanner } from './SaveNoticeBanner';
+import { WalletPanel } from './WalletPanel';
+import { DiceThrowPad } from './DiceThrowPad';
+import {
+  DICE_FACES, diceBetMultiplier, diceBetPayout, diceSums, formatOdds, isSameDiceBet, resolveDiceBets,
+  type DiceBetSpec, type DiceCount,
+} from '../economy/diceBets';
+import {
+  BASKETBALL_MODES, MOVING_HOOP_RULES, SHOOTOUT_RULES, STREAK_RULES, basketballShotMultiplier,
+} from '../economy/basketballModes';
+import type { BasketballMissReason, BasketballMode, BasketballShotKind, DiceThrow } from '../types';
+
+// ============================================================================
+// DICE BET BOARD
+// ============================================================================
+const OUTSIDE_BETS: Record<DiceCount, DiceBetSpec[]> = {
+  2: [
+    { type: 'under' },
+    { type: 'over' },
+    { type: 'odd' },
+    { type: 'even' },
+    { type: 'field' },
+    { type: 'anyDoubles' },
+  ],
+  3: [
+    { type: 'small' },
+    { type: 'big' },
+    { type: 'odd' },
+    { type: 'even' },
+    { type: 'anyTriple' },
+  ],
+};
+
+const describeDiceBet = ({ type, value }: DiceBetSpec) => {
+  switch (type) {
+    case 'sum': return `Sum ${value}`;
+    case 'over': return 'Over 7';
+    case 'under': return 'Under 7';
+    case 'anyDoubles': return 'Any Doubles';
+    case 'doubles': return `${value}-${value}`;
+    case 'odd': return 'Odd';
+    case 'even': return 'Even';
+    case 'field': return 'Field';
+    case 'small': return 'Small';
+    case 'big': return 'Big';
+    case 'anyTriple': return 'Any Triple';
+    case 'triple': return `${value}-${value}-${value}`;
+  }
+};
+
+// ============================================================================
+// BASKETBALL SHOT CALLS
+// ============================================================================
+const SHOT_CALLS: Record<BasketballShotKind, string> = {
+  swish: '🎯 Swish!',
+  rimIn: '🏀 Off the rim and in!',
+  bank: '🪃 Bank shot!',
+};
+
+const MISS_CALLS: Record<BasketballMissReason, string> = {
+  grounded: '❌ Missed',
+  timeout: '⏱️ Shot clock ran out',
+  outOfCourt: '🚫 Out of court',
+  abandoned: '✋ Shot abandoned',
+  shotClock: '⏱️ Shot clock violation',
+};
+
+// ============================================================================
+// BASKETBALL MODES
+// ============================================================================
+const BASKETBALL_MODE_INFO: Record<BasketballMode, { label: string; rules: string; best: string }> = {
+  classic: {
+    label: 'Classic',
+    rules: 'Score a basket to earn 2× your bet!',
+    best: 'most baskets',
+  },
+  shootout: {
+    label: `${SHOOTOUT_RULES.ROUND_TIME}s Shootout`,
+    rules: `Score as many as you can in ${SHOOTOUT_RULES.ROUND_TIME}s, with ${SHOOTOUT_RULES.SHOT_CLOCK}s to shoot once you have the ball. ` +
+      `Baskets pay ${SHOOTOUT_RULES.MULTIPLIER}×, ${SHOOTOUT_RULES.MONEY_TIME_MULTIPLIER}× in the last ${SHOOTOUT_RULES.MONEY_TIME}s!`,
+    best: 'most baskets in a round',
+  },
+  streak: {
+    label: 'Streak',
+    rules: `Baskets pay ${STREAK_RULES.BASE_MULTIPLIER}×, plus ${STREAK_RULES.STEP}× for every basket in a row ` +
+      `(up to ${STREAK_RULES.MAX_MULTIPLIER}×). A miss resets the streak.`,
+    best: 'longest streak',
+  },
+  movingHoop: {
+    label: 'Moving Hoop',
+    rules: `The hoop slides along a rail. Baskets pay ${MOVING_HOOP_RULES.MULTIPLIER}×!`,
+    best: 'most baskets',
+  },
+};
 
 // ============================================================================
 // UI COMPONENT
@@ -20,18 +116,22 @@ export function UI() {
     isRolling,
     diceResult,
     money,
-    currentBet,
-    betAmount,
-    placeBet,
-    setCurrentBet,
-    setBetAmount,
+    diceCount,
+    diceHouseEdge,
+    setDiceCount,
+    diceBets,
+    lastDiceBets,
+    diceRerolls,
+    diceRollRefunded,
+    diceThrowMode,
+    setDiceThrowMode,
+    placeDiceBet,
+    removeDiceBet,
+    clearDiceBets,
+    exitDiceGame,
     isMiniGameActive,
-    setIsMiniGameActive,
     setDiceResult,
-    addMoney,
     triggerRoll,
-    lastBetForResult,
-    lastBetAmountForResult,
     isNearBasketball,
     isBasketballActive,
     isHoldingBall,
@@ -40,6 +140,11 @@ export function UI() {
     basketballBetAmount,
     basketballBetPlaced,
     lastBasketballResult,
+    basketballMode,
+    basketballStreak,
+    basketballRound,
+    basketballBests,
+    setBasketballMode,
     placeBasketballBet,
     resetBasketballGame,
     enterBasketballZone,
@@ -55,18 +160,31 @@ export function UI() {
     resetGame,
     inventory,
     nearRewardBox,
+    currentSaveId,
+    getSaveData,
+    importSave,
+    loadGame,
+    isSaveMenuOpen,
+    setSaveMenuOpen,
+    saveConflictId,
   } = useGameStore();
   
   // LOCAL STATE
   // --------------------------------------------------------------------------
-  const [selectedBet, setSelectedBet] = useState<number | null>(null);
+  const [selectedBet, setSelectedBet] = useState<DiceBetSpec | null>(null);
   const [inputBetAmount, setInputBetAmount] = useState(10);
   const [basketballBetInput, setBasketballBetInput] = useState(10);
   const [simonBetInput, setSimonBetInput] = useState(10);
+  const [saveTransferMessage, setSaveTransferMessage] = useState<string | null>(null);
+  const [isWalletOpen, setIsWalletOpen] = useState(false);
 
   // COMPUTED VALUES
   // --------------------------------------------------------------------------
-  const isWin = diceResult && lastBetForResult === diceResult.total;
+  const diceBetResults = diceResult ? resolveDiceBets(lastDiceBets, diceResult, diceHouseEdge) : [];
+  const diceWinnings = diceBetResults.reduce((total, { payout }) => total + payout, 0);
+  const lastDiceStake = lastDiceBets.reduce((total, bet) => total + bet.amount, 0);
+  const diceBoardStake = diceBets.reduce((total, bet) => total + bet.amount, 0);
+  const isWin = diceWinnings > 0;
 
   // ==========================================================================
   // USE EFFECTS
@@ -117,34 +235,38 @@ export function UI() {
   // --------------------------------------------------------------------------
   const handlePlaceBet = () => {
     if (selectedBet !== null && inputBetAmount > 0) {
-      const success = placeBet(selectedBet, inputBetAmount);
+      const success = placeDiceBet(selectedBet, inputBetAmount);
       console.log(success ? 'Bet placed.' : 'Bet failed: not enough money.');
     }
   };
   
   const handleCancelBet = () => {
-    if (currentBet !== null && betAmount > 0) {
-      addMoney(betAmount);
-      setCurrentBet(null);
-      setBetAmount(0);
-    }
+    clearDiceBets();
     setSelectedBet(null);
     setInputBetAmount(10);
   };
 
-  const handleRollDice = () => {
-    if (currentBet !== null && betAmount > 0 && !isRolling) {
-      triggerRoll();
+  const handleRollDice = (gesture?: DiceThrow) => {
+    if (diceBets.length > 0 && !isRolling) {
+      triggerRoll(gesture);
     }
   };
 
+  // One board button per bet, with its payout multiplier underneath
+  const renderBetButton = (spec: DiceBetSpec) => (
+    <button
+      key={`${spec.type}_${spec.value ?? ''}`}
+      className={`bet-number ${selectedBet && isSameDiceBet(selectedBet, spec) ? 'selected' : ''}`}
+      onClick={() => setSelectedBet(spec)}
+      title={formatOdds(spec, diceCount)}
+    >
+      {spec.value !== undefined && spec.type === 'sum' ? spec.value : describeDiceBet(spec)}
+      <span className="bet-number-odds">×{diceBetMultiplier(spec, diceCount, diceHouseEdge)}</span>
+    </button>
+  );
+
   const handleExitMiniGame = () => {
-    if (currentBet !== null && betAmount > 0) {
-      addMoney(betAmount);
-      setCurrentBet(null);
-      setBetAmount(0);
-    }
-    setIsMiniGameActive(false);
+    exitDiceGame();
     setSelectedBet(null);
     setInputBetAmount(10);
     setDiceResult(null);
@@ -154,9 +276,6 @@ export function UI() {
   // BASKETBALL GAME HANDLERS
   // --------------------------------------------------------------------------
   const handleExitBasketball = () => {
-    if (basketballBetPlaced && basketballBetAmount > 0) {
-      addMoney(basketballBetAmount);
-    }
     exitBasketballZone();
     resetBasketballGame();
     const canvas = document.querySelector('canvas');
@@ -174,6 +293,36 @@ export function UI() {
     }
   };
 
+  // PAUSE MENU & SAVE FILE HANDLERS
+  // --------------------------------------------------------------------------
+  const handleResume = () => {
+    const canvas = document.querySelector('canvas');
+    canvas?.requestPointerLock();
+  };
+
+  const handleExportSave = () => {
+    const data = currentSaveId ? getSaveData(currentSaveId) : null;
+    if (!data) {
+      setSaveTransferMessage(t('ui.saveTransfer.nothingToExport'));
+      return;
+    }
+    downloadSaveExport(data);
+    setSaveTransferMessage(t('ui.saveTransfer.exported', { name: data.name }));
+  };
+
+  const handleImportSave = async () => {
+    try {
+      const data = await pickSaveFile();
+      if (!data) return;
+      const result = importSave(data);
+      if (result.ok && loadGame(result.value).ok) {
+        setSaveTransferMessage(t('ui.saveTransfer.imported', { name: data.name }));
+      }
+    } catch (error) {
+      setSaveTransferMessage(`${t('ui.saveTransfer.importFailed')}: ${(error as Error).message}`);
+    }
+  };
+
   // ==========================================================================
   // RENDER
   // ==========================================================================
@@ -215,6 +364,16 @@ export function UI() {
         </div>
       </div>
 
+      {/* CROSS-TAB SAVE WARNING */}
+      {saveConflictId && saveConflictId === currentSaveId && (
+        <div className="save-conflict-warning">
+          {t('ui.saveConflict.warning')}
+        </div>
+      )}
+
+      {/* SAVE ERRORS (quota, quarantine, missing saves) */}
+      <SaveNoticeBanner />
+
       {/* =====================================================================
          GENERAL INTERACTION HINTS
       ===================================================================== */}
@@ -224,6 +383,41 @@ export function UI() {
         </div>
       )}
 
+      {/* PAUSE MENU (pointer unlocked outside of minigames) */}
+      {!isLocked && !isSaveMenuOpen && !isWalletOpen && !isMiniGameActive && !isBasketballActive && !isSimonActive && (
+        <div className="pause-menu">
+          <h3>{t('ui.pauseMenu.title')}</h3>
+          <button className="primary" onClick={handleResume}>
+            {t('ui.pauseMenu.resume')}
+          </button>
+          <button onClick={() => setSaveMenuOpen(true)}>
+            {t('ui.pauseMenu.saveLoad')}
+          </button>
+          <button onClick={() => setIsWalletOpen(true)}>
+            {t('ui.pauseMenu.wallet')}
+          </button>
+          <button onClick={handleExportSave} disabled={!currentSaveId}>
+            {t('ui.saveTransfer.export')}
+          </button>
+          <button onClick={handleImportSave}>
+            {t('ui.saveTransfer.import')}
+          </button>
+          {saveTransferMessage && (
+            <div className="pause-menu-message">{saveTransferMessage}</div>
+          )}
+        </div>
+      )}
+
+      {/* SAVE / LOAD MENU */}
+      {isSaveMenuOpen && !isLocked && (
+        <SaveBrowser onClose={() => setSaveMenuOpen(false)} />
+      )}
+
+      {/* WALLET HISTORY */}
+      {isWalletOpen && !isLocked && (
+        <WalletPanel onClose={() => setIsWalletOpen(false)} />
+      )}
+
       {/* REWARD BOX INTERACTION HINT */}
       {isLocked && nearRewardBox && !isNearMiniGame && !isMiniGameActive && (
         <div className="interaction-hint">
@@ -277,67 +471,136 @@ export function UI() {
             </button>
           </div>
           
-          {currentBet === null ? (
+          {/* MODE (locked while bets are on the board) */}
+          <div className="dice-mode-toggle">
+            {([2, 3] as const).map((count) => (
+              <button
+                key={count}
+                className={diceCount === count ? 'selected' : ''}
+                disabled={diceBets.length > 0}
+                onClick={() => {
+                  setDiceCount(count);
+                  setSelectedBet(null);
+                }}
+              >
+                {count === 2 ? 'Two Dice' : 'Sic Bo (3 dice)'}
+              </button>
+            ))}
+          </div>
+
+          {diceRollRefunded && (
+            <p className="dice-void-notice">
+              ⚠ The dice landed cocked {diceRerolls} times in a row. Roll void, bets refunded.
+            </p>
+          )}
+
+          <p>Place one or more bets, then roll</p>
+
+          {/* BET BOARD */}
+          <h4 className="bet-board-label">Exact sum</h4>
+          <div className="bet-numbers">
+            {diceSums(diceCount).map((num) => renderBetButton({ type: 'sum', value: num }))}
+          </div>
+
+          <h4 className="bet-board-label">Outside bets</h4>
+          <div className="bet-numbers">
+            {OUTSIDE_BETS[diceCount].map((spec) => renderBetButton(spec))}
+          </div>
+
+          <h4 className="bet-board-label">Doubles</h4>
+          <div className="bet-numbers">
+            {DICE_FACES.map((face) => renderBetButton({ type: 'doubles', value: face }))}
+          </div>
+
+          {diceCount === 3 && (
             <>
-              <p>Predict the sum of two dice (2–12)</p>
-              
+              <h4 className="bet-board-label">Triples</h4>
               <div className="bet-numbers">
-                {[2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12].map((num) => (
-                  <button
-                    key={num}
-                    className={`bet-number ${selectedBet === num ? 'selected' : ''}`}
-                    onClick={() => setSelectedBet(num)}
-                  >
-                    {num}
-                  </button>
-                ))}
+                {DICE_FACES.map((face) => renderBetButton({ type: 'triple', value: face }))}
               </div>
-              
-              <div className="bet-amount-row">
-                <label>Bet Amount:</label>
-                <div className="bet-amount-controls">
-                  <button onClick={() => setInputBetAmount(Math.max(1, inputBetAmount - 10))}>-10</button>
-                  <input
-                    type="number"
-                    value={inputBetAmount}
-                    onChange={(e) => setInputBetAmount(Math.max(1, parseInt(e.target.value) || 0))}
-                    min={1}
-                    max={money}
-                  />
-                  <button onClick={() => setInputBetAmount(Math.min(money, inputBetAmount + 10))}>+10</button>
-                </div>
-              </div>
-              
-              <div className="quick-bet-buttons">
-                <button onClick={() => setInputBetAmount(10)}>10</button>
-                <button onClick={() => setInputBetAmount(50)}>50</button>
-                <button onClick={() => setInputBetAmount(Math.floor(money / 2))}>Half</button>
-                <button onClick={() => setInputBetAmount(money)}>All in</button>
-              </div>
-              
-              <button 
-                className="place-bet-button"
-                onClick={handlePlaceBet}
-                disabled={selectedBet === null || inputBetAmount <= 0 || inputBetAmount > money}
-              >
-                Place Bet ({inputBetAmount} → {selectedBet || '?'})
-              </button>
             </>
-          ) : (
+          )}
+
+          {selectedBet !== null && (
+            <p className="bet-odds-info">
+              {describeDiceBet(selectedBet)} · Odds {formatOdds(selectedBet, diceCount)} · pays{' '}
+              <strong>{diceBetPayout(selectedBet, inputBetAmount, diceCount, diceHouseEdge)}</strong>
+            </p>
+          )}
+
+          <div className="bet-amount-row">
+            <label>Bet Amount:</label>
+            <div className="bet-amount-controls">
+              <button onClick={() => setInputBetAmount(Math.max(1, inputBetAmount - 10))}>-10</button>
+              <input
+                type="number"
+                value={inputBetAmount}
+                onChange={(e) => setInputBetAmount(Math.max(1, parseInt(e.target.value) || 0))}
+                min={1}
+                max={money}
+              />
+              <button onClick={() => setInputBetAmount(Math.min(money, inputBetAmount + 10))}>+10</button>
+            </div>
+          </div>
+
+          <div className="quick-bet-buttons">
+            <button onClick={() => setInputBetAmount(10)}>10</button>
+            <button onClick={() => setInputBetAmount(50)}>50</button>
+            <button onClick={() => setInputBetAmount(Math.floor(money / 2))}>Half</button>
+            <button onClick={() => setInputBetAmount(money)}>All in</button>
+          </div>
+
+          <button
+            className="place-bet-button"
+            onClick={handlePlaceBet}
+            disabled={selectedBet === null || inputBetAmount <= 0 || inputBetAmount > money}
+          >
+            Add Bet ({inputBetAmount} → {selectedBet ? describeDiceBet(selectedBet) : '?'})
+          </button>
+
+          {/* PLACED BETS */}
+          {diceBets.length > 0 && (
             <>
               <div className="current-bet-info">
-                <p>Bet placed!</p>
-                <p>Predicted sum: <strong>{currentBet}</strong></p>
-                <p>Bet amount: <strong>{betAmount}</strong></p>
-                <p>If correct: <strong className="win-amount">{betAmount * 2}</strong> won</p>
+                <ul className="dice-bet-list">
+                  {diceBets.map((bet) => (
+                    <li key={bet.id}>
+                      <span>{describeDiceBet(bet)}</span>
+                      <span>{bet.amount}</span>
+                      <span className="win-amount">→ {diceBetPayout(bet, bet.amount, diceCount, diceHouseEdge)}</span>
+                      <button onClick={() => removeDiceBet(bet.id)}>✕</button>
+                    </li>
+                  ))}
+                </ul>
+                <p>Total stake: <strong>{diceBoardStake}</strong></p>
               </div>
-              
-              <div className="bet-actions">
-                <button className="roll-button" onClick={handleRollDice}>
-                  🎲 Roll the dice!
+
+              {/* THROW STYLE */}
+              <div className="dice-mode-toggle">
+                <button
+                  className={diceThrowMode === 'random' ? 'selected' : ''}
+                  onClick={() => setDiceThrowMode('random')}
+                >
+                  Random Roll
+                </button>
+                <button
+                  className={diceThrowMode === 'gesture' ? 'selected' : ''}
+                  onClick={() => setDiceThrowMode('gesture')}
+                >
+                  Throw by Hand
                 </button>
+              </div>
+
+              {diceThrowMode === 'gesture' && <DiceThrowPad onThrow={handleRollDice} />}
+
+              <div className="bet-actions">
+                {diceThrowMode === 'random' && (
+                  <button className="roll-button" onClick={() => handleRollDice()}>
+                    🎲 Roll the dice!
+                  </button>
+                )}
                 <button className="cancel-button" onClick={handleCancelBet}>
-                  Cancel Bet
+                  Clear Bets
                 </button>
               </div>
             </>
@@ -349,31 +612,48 @@ export function UI() {
         <div className="dice-rolling-panel">
           <h3>🎲 Rolling dice...</h3>
           <div className="rolling-animation">⚄ ⚅ ⚃</div>
-          <p>Bet: {lastBetForResult} with {lastBetAmountForResult}</p>
+          <p>{lastDiceBets.length} bet(s), {lastDiceStake} staked</p>
+          {diceRerolls > 0 && (
+            <p className="dice-void-notice">
+              ⚠ Cocked dice, roll void. Re-rolling ({diceRerolls}), no extra charge.
+            </p>
+          )}
         </div>
       )}
 
       {isMiniGameActive && diceResult && currentRoom === 'minigame1' && (
         <div className={`dice-result-panel ${isWin ? 'win' : 'lose'}`}>
           <h3>{isWin ? t('ui.diceGame.win') : t('ui.diceGame.lose')}</h3>
-          <div className="result-bet-info">
-            Predicted: {lastBetForResult} | Bet: {lastBetAmountForResult}
-          </div>
           <div className="dice-values">
             <span className="dice">{diceResult.dice1}</span>
             <span className="plus">+</span>
             <span className="dice">{diceResult.dice2}</span>
+            {diceResult.dice3 > 0 && (
+              <>
+                <span className="plus">+</span>
+                <span className="dice">{diceResult.dice3}</span>
+              </>
+            )}
             <span className="equals">=</span>
             <span className="total">{diceResult.total}</span>
           </div>
+          <ul className="dice-bet-list">
+            {diceBetResults.map(({ bet, won, payout }) => (
+              <li key={bet.id} className={won ? 'won' : 'lost'}>
+                <span>{describeDiceBet(bet)}</span>
+                <span>{bet.amount}</span>
+                <span>{won ? `+${payout}` : `-${bet.amount}`}</span>
+              </li>
+            ))}
+          </ul>
           {isWin && (
             <div className="win-message">
-              +{lastBetAmountForResult * 2} won
+              +{diceWinnings} won ({lastDiceStake} staked)
             </div>
           )}
           {!isWin && (
             <div className="lose-message">
-              -{lastBetAmountForResult} lost
+              -{lastDiceStake} lost
             </div>
           )}
           <button className="play-again-button" onClick={() => {
@@ -398,7 +678,7 @@ export function UI() {
         </div>
       )}
 
-      {isBasketballActive && currentRoom === 'minigame2' && !basketballBetPlaced && !lastBasketballResult && !isLocked && (
+      {isBasketballActive && currentRoom === 'minigame2' && !basketballBetPlaced && !isLocked && (
         <div className="basketball-panel">
           <div className="panel-header">
             <h3>🏀 Basketball Game</h3>
@@ -407,8 +687,29 @@ export function UI() {
             </button>
           </div>
 
+          {basketballRound?.over && (
+            <div className={`basketball-result ${basketballScore > 0 ? 'win' : 'lose'}`}>
+              <h4>⏱️ Time! {basketballScore} {basketballScore === 1 ? 'basket' : 'baskets'}</h4>
+              <span>Best round: {basketballBests.shootout}</span>
+            </div>
+          )}
+
           <div className="basketball-bet-section">
-            <p>Score a basket to earn 2× your bet!</p>
+            <div className="basketball-mode-toggle">
+              {BASKETBALL_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  className={basketballMode === mode ? 'selected' : ''}
+                  onClick={() => setBasketballMode(mode)}
+                >
+                  {BASKETBALL_MODE_INFO[mode].label}
+                </button>
+              ))}
+            </div>
+            <p>{BASKETBALL_MODE_INFO[basketballMode].rules}</p>
+            <p className="basketball-best">
+              🏆 Best ({BASKETBALL_MODE_INFO[basketballMode].best}): {basketballBests[basketballMode]}
+            </p>
             <div className="bet-amount-row">
               <label>Bet Amount:</label>
               <div className="bet-amount-controls">
@@ -443,8 +744,37 @@ export function UI() {
       {isBasketballActive && basketballBetPlaced && isLocked && (
         <div className="basketball-hud">
           <div className="basketball-hud-info">
-            🏀 Score: {basketballScore} | Bet per round: {basketballBetAmount} | Money: {money} | [Q] Exit
+            🏀 Score: {basketballScore} | Bet per shot: {basketballBetAmount} | Money: {money} | [Q] Exit
           </div>
+
+          {basketballRound && (
+            <div className="basketball-hud-info">
+              ⏱️ {Math.ceil(basketballRound.timeLeft)}s | Shot clock: {Math.ceil(basketballRound.shotClock)}s
+              {basketballRound.timeLeft <= SHOOTOUT_RULES.MONEY_TIME && ` | 💰 Money time: ${SHOOTOUT_RULES.MONEY_TIME_MULTIPLIER}×`}
+            </div>
+          )}
+
+          {basketballMode === 'streak' && (
+            <div className="basketball-hud-info">
+              🔥 Streak: {basketballStreak} | Next basket pays {basketballShotMultiplier('streak', { streak: basketballStreak })}×
+            </div>
+          )}
+
+          {lastBasketballResult && (
+            <div className={`basketball-result ${lastBasketballResult.kind ? 'win' : 'lose'}`}>
+              {lastBasketballResult.kind ? (
+                <>
+                  <h4>{SHOT_CALLS[lastBasketballResult.kind]}</h4>
+                  <span className="win-amount">+{lastBasketballResult.payout} ({lastBasketballResult.multiplier}×)</span>
+                </>
+              ) : (
+                <>
+                  <h4>{MISS_CALLS[lastBasketballResult.missReason ?? 'grounded']}</h4>
+                  <span className="lose-amount">-{lastBasketballResult.stake}</span>
+                </>
+              )}
+            </div>
+          )}
           
           {isHoldingBall && (
             <div className="basketball-power-bar">
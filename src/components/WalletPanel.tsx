@@ -0,0 +1,93 @@
+import { useEffect } from 'react';
+import { useGameStore } from '../hooks/useGameStore';
+import { useI18n } from '../hooks/useI18n';
+import { auditLedger } from '../economy/ledger';
+import type { LedgerEntry } from '../types';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+interface WalletPanelProps {
+  onClose: () => void;
+}
+
+// ============================================================================
+// WALLET HISTORY COMPONENT
+// ============================================================================
+export function WalletPanel({ onClose }: WalletPanelProps) {
+  // STATE
+  const { money, ledger } = useGameStore();
+  const { t } = useI18n();
+
+  const mismatch = auditLedger(ledger, money);
+
+  // CLOSE ON ESCAPE
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Minigame sources read better as their room names
+  const describeSource = (entry: LedgerEntry) => (
+    entry.source === 'debug' || entry.source === 'system'
+      ? t(`ui.wallet.source.${entry.source}`)
+      : t(`ui.roomIndicator.${entry.source}`)
+  );
+
+  // ==========================================================================
+  // RENDER
+  // ==========================================================================
+  return (
+    <div className="fullscreen-overlay" onClick={(e) => e.stopPropagation()}>
+      <div className="wallet-panel">
+        <div className="panel-header">
+          <h3>{t('ui.wallet.title')}</h3>
+          <button className="exit-button" onClick={onClose}>
+            ✕ {t('ui.saveBrowser.close')}
+          </button>
+        </div>
+
+        {/* BALANCE & AUDIT */}
+        <div className="wallet-summary">
+          <span className="wallet-balance">💰 {money.toLocaleString()}</span>
+          {mismatch ? (
+            <span className="wallet-audit mismatch">
+              {t('ui.wallet.mismatch', { time: new Date(mismatch.timestamp).toLocaleTimeString() })}
+            </span>
+          ) : (
+            <span className="wallet-audit">{t('ui.wallet.balanced')}</span>
+          )}
+        </div>
+
+        {/* TRANSACTIONS (newest first) */}
+        <table className="wallet-ledger">
+          <thead>
+            <tr>
+              <th>{t('ui.wallet.time')}</th>
+              <th>{t('ui.wallet.sourceColumn')}</th>
+              <th>{t('ui.wallet.reasonColumn')}</th>
+              <th>{t('ui.wallet.amount')}</th>
+              <th>{t('ui.wallet.balance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...ledger].reverse().map((entry) => (
+              <tr key={entry.id} className={entry === mismatch ? 'mismatch' : ''}>
+                <td>{new Date(entry.timestamp).toLocaleTimeString()}</td>
+                <td>{describeSource(entry)}</td>
+                <td>{t(`ui.wallet.reason.${entry.reason}`)}</td>
+                <td className={entry.amount >= 0 ? 'credit' : 'debit'}>
+                  {entry.amount >= 0 ? '+' : ''}{entry.amount.toLocaleString()}
+                </td>
+                <td>{entry.balance.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -134,6 +134,16 @@ export const MINIGAME_ZONE_CONFIG = {
   },
 };
 
+// Containment walls Room.tsx builds around the physics minigames; dice and
+// the basketball bounce off these same bodies
+export const MINIGAME_ZONE_WALLS = {
+  thickness: 0.1,
+  height: {
+    minigame1: 2,
+    minigame2: 8,
+  },
+};
+
 // ============================================================================
 // PLAYER CONFIGURATION
 // ============================================================================
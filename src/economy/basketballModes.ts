@@ -0,0 +1,60 @@
+import type { BasketballMode } from '../types';
+
+// ============================================================================
+// MODE CONSTANTS
+// ============================================================================
+export const BASKETBALL_MODES: BasketballMode[] = ['classic', 'shootout', 'streak', 'movingHoop'];
+
+export const SHOOTOUT_RULES = {
+  ROUND_TIME: 60,   // seconds in a round
+  SHOT_CLOCK: 8,    // seconds to shoot once the ball is in hand
+  MONEY_TIME: 10,   // the last seconds of a round pay the bonus multiplier
+  MULTIPLIER: 2,
+  MONEY_TIME_MULTIPLIER: 3,
+} as const;
+
+export const STREAK_RULES = {
+  BASE_MULTIPLIER: 2,
+  STEP: 0.5,        // added for every make already in the streak
+  MAX_MULTIPLIER: 5,
+} as const;
+
+export const MOVING_HOOP_RULES = {
+  MULTIPLIER: 3,
+} as const;
+
+// ============================================================================
+// PAYOUTS
+// ============================================================================
+// Stake multiple a make pays. `streak` is the makes in a row before this
+// shot; `timeLeft` is the shootout clock when the shot went in
+export function basketballShotMultiplier(
+  mode: BasketballMode,
+  { streak = 0, timeLeft = 0 }: { streak?: number; timeLeft?: number } = {}
+): number {
+  switch (mode) {
+    case 'classic':
+      return 2;
+    case 'shootout':
+      return timeLeft <= SHOOTOUT_RULES.MONEY_TIME
+        ? SHOOTOUT_RULES.MONEY_TIME_MULTIPLIER
+        : SHOOTOUT_RULES.MULTIPLIER;
+    case 'streak':
+      return Math.min(STREAK_RULES.MAX_MULTIPLIER, STREAK_RULES.BASE_MULTIPLIER + streak * STREAK_RULES.STEP);
+    case 'movingHoop':
+      return MOVING_HOOP_RULES.MULTIPLIER;
+  }
+}
+
+// ============================================================================
+// BEST SCORES
+// ============================================================================
+// What a mode's best score measures: the longest streak in streak mode,
+// otherwise baskets in one run (one shootout round, or one bet)
+export function basketballModeScore(mode: BasketballMode, { score, streak }: { score: number; streak: number }): number {
+  return mode === 'streak' ? streak : score;
+}
+
+export function emptyBasketballBests(): Record<BasketballMode, number> {
+  return { classic: 0, shootout: 0, streak: 0, movingHoop: 0 };
+}
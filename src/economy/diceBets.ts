@@ -0,0 +1,142 @@
+import type { DiceResult } from '../types';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// Two dice (classic) or three dice (Sic Bo)
+export type DiceCount = 2 | 3;
+
+export type DiceBetType =
+  | 'sum'        // exact total (value: 2–12, or 3–18 with three dice)
+  | 'over'       // total above 7
+  | 'under'      // total below 7
+  | 'anyDoubles' // two dice match
+  | 'doubles'    // at least two dice show value (1–6)
+  | 'odd'
+  | 'even'
+  | 'field'      // total of 2, 3, 4, 9, 10, 11 or 12
+  | 'small'      // Sic Bo: total 4–10, any triple loses
+  | 'big'        // Sic Bo: total 11–17, any triple loses
+  | 'anyTriple'  // all three dice match
+  | 'triple';    // all three dice show value (1–6)
+
+// What is being bet on, before a stake is attached
+export interface DiceBetSpec {
+  type: DiceBetType;
+  value?: number;
+}
+
+export interface DiceBet extends DiceBetSpec {
+  id: string;
+  amount: number;
+}
+
+export interface DiceBetResult {
+  bet: DiceBet;
+  won: boolean;
+  payout: number; // total returned, stake included
+}
+
+// ============================================================================
+// BET RULES
+// ============================================================================
+export const DICE_FACES = [1, 2, 3, 4, 5, 6] as const;
+const FIELD_TOTALS = [2, 3, 4, 9, 10, 11, 12];
+
+// Bets offered on the board for each mode
+export const DICE_BET_TYPES: Record<DiceCount, DiceBetType[]> = {
+  2: ['sum', 'over', 'under', 'anyDoubles', 'doubles', 'odd', 'even', 'field'],
+  3: ['sum', 'small', 'big', 'anyTriple', 'triple', 'doubles', 'odd', 'even'],
+};
+
+export function diceSums(count: DiceCount): number[] {
+  return Array.from({ length: count * 5 + 1 }, (_, i) => count + i);
+}
+
+// Dice actually rolled; two-dice results leave dice3 at 0
+export function resultDice(result: DiceResult): number[] {
+  return result.dice3 > 0 ? [result.dice1, result.dice2, result.dice3] : [result.dice1, result.dice2];
+}
+
+const countOf = (dice: number[], face: number) => dice.filter(d => d === face).length;
+const isTriple = (dice: number[]) => dice.length === 3 && dice.every(d => d === dice[0]);
+
+const BET_RULES: Record<DiceBetType, (dice: number[], total: number, value?: number) => boolean> = {
+  sum: (_, total, value) => total === value,
+  over: (_, total) => total > 7,
+  under: (_, total) => total < 7,
+  anyDoubles: (dice) => DICE_FACES.some(face => countOf(dice, face) >= 2),
+  doubles: (dice, _, value = 0) => countOf(dice, value) >= 2,
+  odd: (_, total) => total % 2 === 1,
+  even: (_, total) => total % 2 === 0,
+  field: (_, total) => FIELD_TOTALS.includes(total),
+  small: (dice, total) => total >= 4 && total <= 10 && !isTriple(dice),
+  big: (dice, total) => total >= 11 && total <= 17 && !isTriple(dice),
+  anyTriple: (dice) => isTriple(dice),
+  triple: (dice, _, value) => isTriple(dice) && dice[0] === value,
+};
+
+export function isValidDiceBet({ type, value }: DiceBetSpec, count: DiceCount): boolean {
+  if (!DICE_BET_TYPES[count].includes(type)) return false;
+  if (type === 'sum') return value !== undefined && diceSums(count).includes(value);
+  if (type === 'doubles' || type === 'triple') return value !== undefined && value >= 1 && value <= 6;
+  return value === undefined;
+}
+
+export function isSameDiceBet(a: DiceBetSpec, b: DiceBetSpec) {
+  return a.type === b.type && a.value === b.value;
+}
+
+export function diceBetWins(bet: DiceBetSpec, result: DiceResult): boolean {
+  return BET_RULES[bet.type](resultDice(result), result.total, bet.value);
+}
+
+// ============================================================================
+// ODDS & PAYOUTS
+// ============================================================================
+// Payouts follow the true probability of each bet, minus a house edge, so a
+// long shot like a sum of 2 pays far more than the common 7. The table's
+// edge lives in the game store (diceHouseEdge) and can be tuned from the
+// debug panel; this is its default.
+export const DICE_HOUSE_EDGE = 0.05;
+export const MAX_DICE_HOUSE_EDGE = 0.5;
+
+// Every possible roll of `count` six-sided dice
+function allRolls(count: DiceCount): number[][] {
+  let rolls: number[][] = [[]];
+  for (let i = 0; i < count; i++) {
+    rolls = rolls.flatMap(roll => DICE_FACES.map(face => [...roll, face]));
+  }
+  return rolls;
+}
+
+// Chance of winning, counted over all 6^count rolls
+export function diceBetProbability(bet: DiceBetSpec, count: DiceCount): number {
+  const rolls = allRolls(count);
+  const wins = rolls.filter(dice => BET_RULES[bet.type](dice, dice.reduce((a, b) => a + b, 0), bet.value));
+  return wins.length / rolls.length;
+}
+
+// Total returned for a winning bet (stake included), per unit staked
+export function diceBetMultiplier(bet: DiceBetSpec, count: DiceCount, houseEdge = DICE_HOUSE_EDGE): number {
+  const probability = diceBetProbability(bet, count);
+  return probability > 0 ? Math.round(((1 - houseEdge) / probability) * 100) / 100 : 0;
+}
+
+export function diceBetPayout(bet: DiceBetSpec, amount: number, count: DiceCount, houseEdge = DICE_HOUSE_EDGE): number {
+  return Math.floor(amount * diceBetMultiplier(bet, count, houseEdge));
+}
+
+export function resolveDiceBets(bets: DiceBet[], result: DiceResult, houseEdge = DICE_HOUSE_EDGE): DiceBetResult[] {
+  const count = resultDice(result).length as DiceCount;
+  return bets.map((bet) => {
+    const won = diceBetWins(bet, result);
+    return { bet, won, payout: won ? diceBetPayout(bet, bet.amount, count, houseEdge) : 0 };
+  });
+}
+
+// "1 in 6" style odds for the bet board
+export function formatOdds(bet: DiceBetSpec, count: DiceCount): string {
+  const probability = diceBetProbability(bet, count);
+  return probability > 0 ? `1 in ${Math.round((1 / probability) * 10) / 10}` : '—';
+}
@@ -0,0 +1,48 @@
+import type { LedgerEntry, LedgerReason, LedgerSource } from '../types';
+import { rng } from '../utils/rng';
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+// Every change to the player's money is recorded here so balance bugs can be
+// traced back to the game and action that caused them.
+export const LEDGER_LIMIT = 200;
+export const STARTING_MONEY = 100;
+
+export function createLedgerEntry(
+  amount: number,
+  balance: number,
+  source: LedgerSource,
+  reason: LedgerReason,
+  timestamp = Date.now(),
+): LedgerEntry {
+  return {
+    id: `${timestamp}_${rng('ids').id(5)}`,
+    timestamp,
+    amount,
+    balance,
+    source,
+    reason,
+  };
+}
+
+export function openingLedger(balance = STARTING_MONEY, timestamp = Date.now()): LedgerEntry[] {
+  return [createLedgerEntry(balance, balance, 'system', 'opening', timestamp)];
+}
+
+export function appendLedger(ledger: LedgerEntry[], entry: LedgerEntry) {
+  return [...ledger, entry].slice(-LEDGER_LIMIT);
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+// Returns the first entry whose balance does not follow from the one before
+// it (or from the live balance for the newest entry), or null if consistent.
+export function auditLedger(ledger: LedgerEntry[], money: number): LedgerEntry | null {
+  for (let i = 1; i < ledger.length; i++) {
+    if (ledger[i - 1].balance + ledger[i].amount !== ledger[i].balance) return ledger[i];
+  }
+  const last = ledger[ledger.length - 1];
+  return last && last.balance !== money ? last : null;
+}
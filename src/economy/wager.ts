@@ -0,0 +1,56 @@
+import type { LobbyMinigameId } from '../types';
+import { rng } from '../utils/rng';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// A stake held in escrow between being taken from the balance and the game
+// deciding what to pay back. Each minigame has at most one open wager.
+export interface Wager {
+  id: string;
+  game: LobbyMinigameId;
+  stake: number;
+  openedAt: number;
+  // Once the outcome is being decided (dice rolling, ball in the air,
+  // pattern shown) walking away forfeits the stake instead of refunding it
+  inPlay: boolean;
+}
+
+export interface WagerOutcome {
+  won: boolean;
+  round?: number; // rounds cleared, for games that pay per round
+  returned?: number; // total priced by the game itself, for multi-bet games
+  multiplier?: number; // stake multiple a win pays, for games that vary it
+}
+
+export type OpenWagers = Partial<Record<LobbyMinigameId, Wager>>;
+
+// ============================================================================
+// PAYOUT RULES
+// ============================================================================
+// Total credited for an outcome, stake included
+export const WAGER_PAYOUTS: Record<LobbyMinigameId, (stake: number, outcome: WagerOutcome) => number> = {
+  // Dice: every bet on the board is priced by its odds (see economy/diceBets.ts)
+  minigame1: (_stake, { won, returned = 0 }) => (won ? returned : 0),
+  // Basketball: each basket pays the shot's stake times the mode's
+  // multiplier, double by default (see economy/basketballModes.ts)
+  minigame2: (stake, { won, multiplier = 2 }) => (won ? Math.floor(stake * multiplier) : 0),
+  // Simon: every cleared round pays stake × round
+  minigame3: (stake, { won, round = 0 }) => (won ? stake * round : 0),
+};
+
+export function createWager(game: LobbyMinigameId, stake: number, inPlay = false): Wager {
+  const openedAt = Date.now();
+  return {
+    id: `${game}_${openedAt}_${rng('ids').id(5)}`,
+    game,
+    stake,
+    openedAt,
+    inPlay,
+  };
+}
+
+// What happens to a wager left open when its game is abandoned
+export function exitResolution(wager: Wager): 'refund' | 'forfeit' {
+  return wager.inPlay ? 'forfeit' : 'refund';
+}
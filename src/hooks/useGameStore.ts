@@ -1,32 +1,51 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import type { RoomType, Portal } from '../types';
+import type {
+  RoomType, Portal, SaveData, SaveSlot, InventoryItem, PlayerLook,
+  LedgerEntry, LedgerReason, LedgerSource, LobbyMinigameId, DiceResult, DiceThrow,
+  BasketballShot, BasketballShotKind, BasketballMissReason, BasketballMode, BasketballRound,
+} from '../types';
 import { ROOM_CONFIGS, PLAYER_CONFIG } from '../config/rooms';
+import { createSaveEnvelope, parseSave } from '../save/saveSchema';
+import {
+  getSaveStorage, saveKey, quarantineKey, thumbnailKey, LAST_QUICKSAVE_KEY, SETTINGS_KEY,
+} from '../save/saveStorage';
+import { applyRetention, findOrphanSaveKeys, inferSaveMode, suggestPrune } from '../save/saveRetention';
+import {
+  saveOk, saveFailure, toSaveFailure,
+  type SaveFailure, type SaveNotice, type SaveResult,
+} from '../save/saveErrors';
+import { hasOtherTabs, type TabPresence } from '../save/saveSync';
+import { captureThumbnail } from '../save/saveThumbnail';
+import { rng } from '../utils/rng';
+import { clearLivePose, takeLivePlayer } from '../utils/livePlayer';
+import { appendLedger, createLedgerEntry, openingLedger, STARTING_MONEY } from '../economy/ledger';
+import {
+  SHOOTOUT_RULES, basketballModeScore, basketballShotMultiplier, emptyBasketballBests,
+} from '../economy/basketballModes';
+import {
+  DICE_HOUSE_EDGE, MAX_DICE_HOUSE_EDGE, isValidDiceBet, isSameDiceBet, resolveDiceBets,
+  type DiceBet, type DiceBetSpec, type DiceCount,
+} from '../economy/diceBets';
+import {
+  createWager, exitResolution, WAGER_PAYOUTS,
+  type OpenWagers, type WagerOutcome,
+} from '../economy/wager';
+import {
+  appendHistory, readHistory, writeHistory,
+  type HistoryEntry, type HistoryEvent,
+} from '../save/saveHistory';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
-interface DiceResult {
-  dice1: number;
-  dice2: number;
-  dice3: number;
-  total: number;
-}
-
-interface SaveSlot {
-  id: string;
-  name: string;
-  timestamp: number;
-}
+type Vec3 = { x: number; y: number; z: number };
 
-interface SaveData {
-  id: string;
-  name: string;
-  timestamp: number;
-  currentRoom: RoomType;
-  money: number;
-  position: { x: number; y: number; z: number };
-  lastAutoSave: number;
+function getSpawnPosition(room: RoomType): Vec3 {
+  const spawn = ROOM_CONFIGS[room]?.spawnPosition;
+  return spawn
+    ? { x: spawn.x, y: spawn.y, z: spawn.z }
+    : { x: 0, y: PLAYER_CONFIG.spawnHeight, z: 0 };
 }
 
 interface GameStore {
@@ -39,9 +58,20 @@ interface GameStore {
   nearRewardBox: 'minigame1' | 'minigame2' | 'minigame3' | null;
   isLocked: boolean;
   playerTeleportTarget: { x: number; y: number; z: number } | null;
+  playerLookTarget: PlayerLook | null;
+
+  // PLAYER POSE (last committed from utils/livePlayer; see commitLivePlayer)
+  playerPosition: Vec3;
+  playerLook: PlayerLook;
   
   // ECONOMY STATE
   money: number;
+  ledger: LedgerEntry[];
+  wagers: OpenWagers; // stakes in escrow, keyed by minigame
+
+  // PLAYTIME (seconds of unpaused play, carried across saves; live ticks
+  // wait in utils/livePlayer until the next commit)
+  playtime: number;
 
   // MINIGAME COMPLETION STATE
   playedMinigames: {
@@ -51,11 +81,7 @@ interface GameStore {
   };
 
   // INVENTORY STATE
-  inventory: Array<{
-    id: string;
-    minigameId: 'minigame1' | 'minigame2' | 'minigame3' | 'minigame4';
-    color: string;
-  }>;
+  inventory: InventoryItem[];
 
   // REWARD BOX STATE
   spawnedBoxes: {
@@ -75,6 +101,15 @@ interface GameStore {
   autoSaveInterval: number; // in seconds
   lastAutoSaveTime: number;
   saveSlots: SaveSlot[];
+  isSaveMenuOpen: boolean;
+  saveNotice: SaveNotice | null;
+
+  // REWIND HISTORY (rolling snapshots at key events, newest last)
+  history: HistoryEntry[];
+
+  // CROSS-TAB STATE
+  otherTabCount: number;
+  saveConflictId: string | null; // active save also being played in another tab
   
   // ========================================================================
   // DICE GAME STATE
@@ -84,10 +119,14 @@ interface GameStore {
   diceResult: DiceResult | null;
   isRolling: boolean;
   shouldTriggerRoll: boolean;
-  currentBet: number | null;
-  betAmount: number;
-  lastBetForResult: number | null;
-  lastBetAmountForResult: number;
+  diceCount: DiceCount; // 2 = classic, 3 = Sic Bo
+  diceHouseEdge: number; // share of fair odds the table keeps (0–0.5)
+  diceBets: DiceBet[]; // bets on the board for the next roll
+  lastDiceBets: DiceBet[]; // bets the current/last roll resolves
+  diceRerolls: number; // void (cocked) rolls re-thrown for the current bets
+  diceRollRefunded: boolean; // gave up re-rolling and refunded the bets
+  diceThrowMode: 'random' | 'gesture';
+  pendingDiceThrow: DiceThrow | null; // hand throw for the next roll; null = random
   
   // ========================================================================
   // BASKETBALL GAME STATE
@@ -101,7 +140,12 @@ interface GameStore {
   basketballAttempts: number;
   basketballBetAmount: number;
   basketballBetPlaced: boolean;
-  lastBasketballResult: 'win' | 'lose' | null;
+  basketballShot: BasketballShot | null; // the shot being staked, thrown or settled
+  lastBasketballResult: BasketballShot | null; // latest settled shot, shown until the next throw
+  basketballMode: BasketballMode;
+  basketballStreak: number; // makes in a row
+  basketballRound: BasketballRound | null; // shootout clocks; null in other modes
+  basketballBests: Record<BasketballMode, number>; // saved with progress
   
   // ========================================================================
   // SIMON GAME STATE
@@ -122,16 +166,30 @@ interface GameStore {
   // ========================================================================
   // CORE GAME ACTIONS
   // ========================================================================
-  saveGame: (position: { x: number; y: number; z: number }, mode?: 'manual' | 'auto' | 'quick', slotName?: string) => string | null;
-  loadGame: (saveId: string) => boolean;
-  quickSave: () => string | null;
+  saveGame: (position?: Vec3, mode?: 'manual' | 'auto' | 'quick', slotName?: string, look?: PlayerLook) => SaveResult<string>;
+  loadGame: (saveId: string) => SaveResult<SaveData>;
+  getSaveData: (saveId: string) => SaveData | null;
+  importSave: (data: SaveData) => SaveResult<string>;
+  overwriteSave: (saveId: string) => SaveResult<string>;
+  renameSave: (saveId: string, name: string) => SaveResult<string>;
+  setSaveMenuOpen: (open: boolean) => void;
+  quickSave: () => SaveResult<string>;
   deleteSave: (saveId: string) => boolean;
+  pruneSaves: (saveIds: string[]) => number;
+  reportSaveError: (error: unknown, key?: string | null) => void;
+  dismissSaveNotice: () => void;
+  recordHistory: (event: HistoryEvent, detail?: string) => void;
+  rewindTo: (entryId: string) => boolean;
   getSaveSlotName: (mode: 'manual' | 'auto' | 'quick') => string;
   listSaves: () => SaveSlot[];
   clearAllSaves: () => void;
+  cleanupOrphanSaves: () => number;
+  reconcileSaveSlots: () => void;
+  setTabPresence: (presence: TabPresence) => void;
   toggleAutoSave: () => void;
   setAutoSaveInterval: (seconds: number) => void;
-  checkAutoSave: () => void;
+  checkAutoSave: () => boolean;
+  commitLivePlayer: () => void;
 
   setCurrentRoom: (room: RoomType) => void;
   setIsPlaying: (playing: boolean) => void;
@@ -143,9 +201,18 @@ interface GameStore {
   // ========================================================================
   // ECONOMY ACTIONS
   // ========================================================================
+  applyMoneyChange: (amount: number, source: LedgerSource, reason: LedgerReason) => boolean;
   setMoney: (amount: number) => void;
-  addMoney: (amount: number) => void;
-  removeMoney: (amount: number) => boolean;
+
+  // WAGERS (open → payout/settle/refund/forfeit)
+  openWager: (game: LobbyMinigameId, stake: number, inPlay?: boolean) => boolean;
+  adjustWager: (game: LobbyMinigameId, delta: number) => boolean;
+  markWagerInPlay: (game: LobbyMinigameId) => void;
+  payoutWager: (game: LobbyMinigameId, outcome: WagerOutcome) => number;
+  settleWager: (game: LobbyMinigameId, outcome: WagerOutcome) => number;
+  refundWager: (game: LobbyMinigameId) => boolean;
+  forfeitWager: (game: LobbyMinigameId) => void;
+  closeWagers: (games?: LobbyMinigameId[]) => void;
   
   // ========================================================================
   // DICE GAME ACTIONS
@@ -154,11 +221,18 @@ interface GameStore {
   setIsMiniGameActive: (active: boolean) => void;
   setDiceResult: (result: DiceResult | null) => void;
   setIsRolling: (rolling: boolean) => void;
-  triggerRoll: () => void;
+  triggerRoll: (gesture?: DiceThrow) => void;
   clearTriggerRoll: () => void;
-  setCurrentBet: (bet: number | null) => void;
-  setBetAmount: (amount: number) => void;
-  placeBet: (predictedSum: number, amount: number) => boolean;
+  setDiceCount: (count: DiceCount) => void;
+  setDiceHouseEdge: (edge: number) => void;
+  setDiceThrowMode: (mode: 'random' | 'gesture') => void;
+  placeDiceBet: (spec: DiceBetSpec, amount: number) => boolean;
+  removeDiceBet: (betId: string) => void;
+  clearDiceBets: () => void;
+  resolveDiceRoll: (result: DiceResult) => number;
+  voidDiceRoll: () => void;
+  refundDiceRoll: () => void;
+  exitDiceGame: () => void;
   
   // ========================================================================
   // BASKETBALL GAME ACTIONS
@@ -168,12 +242,15 @@ interface GameStore {
   setIsHoldingBall: (holding: boolean) => void;
   setThrowPower: (power: number) => void;
   setIsChargingThrow: (charging: boolean) => void;
-  incrementBasketballScore: () => void;
-  incrementBasketballAttempts: () => void;
   resetBasketballGame: () => void;
   placeBasketballBet: (amount: number) => boolean;
-  resolveBasketballBet: (scored: boolean) => void;
+  armBasketballShot: () => boolean;
+  releaseBasketballShot: () => void;
+  resolveBasketballShot: (result: { kind: BasketballShotKind } | { missReason: BasketballMissReason }) => void;
+  setBasketballMode: (mode: BasketballMode) => void;
+  tickBasketballRound: (delta: number) => 'shotClock' | 'horn' | null;
   setPlayerTeleportTarget: (target: { x: number; y: number; z: number } | null) => void;
+  setPlayerLookTarget: (target: PlayerLook | null) => void;
   enterBasketballZone: () => void;
   exitBasketballZone: () => void;
   
@@ -210,6 +287,163 @@ interface GameStore {
   collectRewardBox: (minigameId: 'minigame1' | 'minigame2' | 'minigame3') => void;
 }
 
+// Persisted per profile under SETTINGS_KEY (see partialize below)
+const DEFAULT_SAVE_SETTINGS = {
+  saveSlots: [] as SaveSlot[],
+  currentSaveId: null as string | null,
+  autoSaveEnabled: true,
+  autoSaveInterval: 300,
+  lastAutoSaveTime: 0,
+};
+
+// Minigame and proximity state cleared whenever progress is swapped out or
+// the player leaves the room; goes with closeWagers(), so no game is left
+// mid-round with no wager behind it
+const MINIGAME_IDLE_STATE = {
+  nearRewardBox: null,
+  nearPortal: null,
+  isNearMiniGame: false,
+  isMiniGameActive: false,
+  isNearBasketball: false,
+  isBasketballActive: false,
+  isHoldingBall: false,
+  throwPower: 0,
+  isChargingThrow: false,
+  basketballScore: 0,
+  basketballAttempts: 0,
+  basketballBetAmount: 0,
+  basketballBetPlaced: false,
+  lastBasketballResult: null,
+  basketballShot: null,
+  basketballStreak: 0,
+  basketballRound: null,
+  diceResult: null,
+  isRolling: false,
+  diceBets: [],
+  lastDiceBets: [],
+  diceRerolls: 0,
+  diceRollRefunded: false,
+  pendingDiceThrow: null,
+  shouldTriggerRoll: false,
+  isNearSimon: false,
+  isSimonActive: false,
+  simonBetPlaced: false,
+  simonPattern: [],
+  simonPlayerPattern: [],
+  simonScore: 0,
+  simonGameMessage: '',
+  simonIsShowingPattern: false,
+  simonCanClick: false,
+  simonLitButton: null,
+  simonIsGameOver: false,
+} satisfies Partial<GameStore>;
+
+// ============================================================================
+// SAVE SNAPSHOT
+// ============================================================================
+function createSnapshot(
+  state: GameStore,
+  meta: Pick<SaveData, 'id' | 'name' | 'timestamp' | 'lastAutoSave'>,
+  position: Vec3 = state.playerPosition,
+  look: PlayerLook = state.playerLook,
+): SaveData {
+  return {
+    ...meta,
+    currentRoom: state.currentRoom,
+    money: state.money,
+    position,
+    look,
+    inventory: state.inventory,
+    playedMinigames: state.playedMinigames,
+    spawnedBoxes: state.spawnedBoxes,
+    collectedBoxes: state.collectedBoxes,
+    playtime: state.playtime,
+    ledger: state.ledger,
+    basketballBests: state.basketballBests,
+  };
+}
+
+function toSlot(data: SaveData, mode: SaveSlot['mode']): SaveSlot {
+  return {
+    id: data.id,
+    name: data.name,
+    timestamp: data.timestamp,
+    mode,
+    currentRoom: data.currentRoom,
+    money: data.money,
+    playtime: data.playtime,
+    hasThumbnail: writeThumbnail(data.id),
+  };
+}
+
+// ============================================================================
+// SAVE READS & FAILURES
+// ============================================================================
+// Corrupt payloads are moved aside instead of deleted so they can still be
+// recovered by hand, and so they stop breaking the slot list.
+function readSave(saveId: string): SaveResult<SaveData> {
+  const storage = getSaveStorage();
+  const raw = storage.getItem(saveKey(saveId));
+  if (raw === null) return saveFailure('missingSlot', `Save ${saveId} has no data`);
+
+  try {
+    return saveOk(parseSave(raw));
+  } catch (error) {
+    const failure = toSaveFailure(error);
+    if (failure.error === 'corrupt') {
+      try {
+        storage.setItem(quarantineKey(saveId), raw);
+        storage.removeItem(saveKey(saveId));
+        console.warn(`Quarantined corrupt save ${saveId}: ${failure.message}`);
+      } catch (quarantineError) {
+        console.error(`Failed to quarantine save ${saveId}:`, quarantineError);
+      }
+    }
+    return failure;
+  }
+}
+
+function writeSave(data: SaveData) {
+  getSaveStorage().setItem(saveKey(data.id), JSON.stringify(createSaveEnvelope(data)));
+}
+
+// Thumbnails live under their own key so the persisted slot index stays
+// small; a save without one still counts as saved
+function writeThumbnail(saveId: string): boolean {
+  const thumbnail = captureThumbnail();
+  if (!thumbnail) return false;
+  try {
+    getSaveStorage().setItem(thumbnailKey(saveId), thumbnail);
+    return true;
+  } catch (error) {
+    console.warn('Failed to store save thumbnail:', error);
+    return false;
+  }
+}
+
+function removeSavePayload(saveId: string) {
+  getSaveStorage().removeItem(saveKey(saveId));
+  getSaveStorage().removeItem(thumbnailKey(saveId));
+}
+
+function createNotice(state: GameStore, failure: SaveFailure, saveName?: string): SaveNotice {
+  return {
+    error: failure.error,
+    saveName,
+    pruneSuggestions: failure.error === 'quotaExceeded'
+      ? suggestPrune(state.saveSlots, state.currentSaveId)
+      : [],
+  };
+}
+
+// Slots whose payload is gone or quarantined are dropped from the index
+function withoutSlot(state: GameStore, saveId: string): Partial<GameStore> {
+  return {
+    saveSlots: state.saveSlots.filter(slot => slot.id !== saveId),
+    currentSaveId: state.currentSaveId === saveId ? null : state.currentSaveId,
+  };
+}
+
 // ============================================================================
 // GAME STORE CREATION
 // ============================================================================
@@ -226,9 +460,19 @@ export const useGameStore = create<GameStore>()(
       nearRewardBox: null,
       isLocked: false,
       playerTeleportTarget: null,
+      playerLookTarget: null,
+
+      // LIVE PLAYER POSE
+      playerPosition: getSpawnPosition('main'),
+      playerLook: { yaw: 0, pitch: 0 },
 
       // ECONOMY STATE
-      money: 100,
+      money: STARTING_MONEY,
+      ledger: openingLedger(),
+      wagers: {},
+
+      // PLAYTIME
+      playtime: 0,
 
       // MINIGAME COMPLETION STATE
       playedMinigames: {
@@ -253,11 +497,16 @@ export const useGameStore = create<GameStore>()(
       },
 
       // SAVE SYSTEM STATE
-      currentSaveId: null,
-      autoSaveEnabled: true,
-      autoSaveInterval: 300,
-      lastAutoSaveTime: 0,
-      saveSlots: [],
+      ...DEFAULT_SAVE_SETTINGS,
+      isSaveMenuOpen: false,
+      saveNotice: null,
+
+      // REWIND HISTORY
+      history: [],
+
+      // CROSS-TAB STATE
+      otherTabCount: 0,
+      saveConflictId: null,
 
       // DICE GAME STATE
       isNearMiniGame: false,
@@ -265,10 +514,14 @@ export const useGameStore = create<GameStore>()(
       diceResult: null,
       isRolling: false,
       shouldTriggerRoll: false,
-      currentBet: null,
-      betAmount: 0,
-      lastBetForResult: null,
-      lastBetAmountForResult: 0,
+      diceCount: 2,
+      diceHouseEdge: DICE_HOUSE_EDGE,
+      diceBets: [],
+      lastDiceBets: [],
+      diceRerolls: 0,
+      diceRollRefunded: false,
+      diceThrowMode: 'random',
+      pendingDiceThrow: null,
 
       // BASKETBALL GAME STATE
       isNearBasketball: false,
@@ -281,6 +534,11 @@ export const useGameStore = create<GameStore>()(
       basketballBetAmount: 0,
       basketballBetPlaced: false,
       lastBasketballResult: null,
+      basketballShot: null,
+      basketballStreak: 0,
+      basketballRound: null,
+      basketballMode: 'classic',
+      basketballBests: emptyBasketballBests(),
 
       // SIMON GAME STATE
       isNearSimon: false,
@@ -302,115 +560,207 @@ export const useGameStore = create<GameStore>()(
 
       // SAVE SYSTEM ACTIONS
       // ------------------------------------------------------------------------
-      saveGame: (position, mode = 'manual', slotName?: string) => {
+      saveGame: (position, mode = 'manual', slotName, look) => {
+        get().commitLivePlayer();
         const state = get();
         const timestamp = Date.now();
-        const saveId = `${mode}_${timestamp}_${Math.random().toString(36).substr(2, 9)}`;
+        const saveId = `${mode}_${timestamp}_${rng('ids').id(9)}`;
 
-        const saveData: SaveData = {
+        // Position and look default to where the player actually is right now
+        const saveData = createSnapshot(state, {
           id: saveId,
           name: slotName || state.getSaveSlotName(mode),
           timestamp,
-          currentRoom: state.currentRoom,
-          money: state.money,
-          position,
           lastAutoSave: mode === 'auto' ? timestamp : state.lastAutoSaveTime,
-        };
+        }, position, look);
 
         try {
-          localStorage.setItem(`mini3d_save_${saveId}`, JSON.stringify(saveData));
+          writeSave(saveData);
 
-          const existingIndex = state.saveSlots.findIndex(slot => slot.id === saveId);
-          const newSlot: SaveSlot = {
-            id: saveId,
-            name: saveData.name,
-            timestamp,
-          };
+          const newSlot = toSlot(saveData, mode);
 
-          let updatedSlots = [...state.saveSlots];
-          if (existingIndex >= 0) {
-            updatedSlots[existingIndex] = newSlot;
-          } else {
-            updatedSlots.push(newSlot);
-            if (updatedSlots.length > 20) {
-              updatedSlots = updatedSlots.slice(-20);
-            }
-          }
-
-          updatedSlots.sort((a, b) => b.timestamp - a.timestamp);
+          // Rotate auto/quick saves per their retention limit; manual saves stay
+          const { kept, evicted } = applyRetention([
+            ...state.saveSlots.filter(slot => slot.id !== saveId),
+            newSlot,
+          ]);
+          evicted.forEach(slot => removeSavePayload(slot.id));
 
           set({
             currentSaveId: saveId,
-            saveSlots: updatedSlots,
+            saveSlots: kept,
             lastAutoSaveTime: mode === 'auto' ? timestamp : state.lastAutoSaveTime,
           });
 
           if (mode === 'quick') {
-            localStorage.setItem('mini3d_last_quicksave', saveId);
+            getSaveStorage().setItem(LAST_QUICKSAVE_KEY, saveId);
           }
 
           console.log(`Game saved (${mode}): ${saveData.name}`);
-          return saveId;
+          return saveOk(saveId);
         } catch (error) {
           console.error('Failed to save game:', error);
-          return null;
+          const failure = toSaveFailure(error);
+          set({
+            saveNotice: createNotice(get(), failure, saveData.name),
+            // A failed interval save waits a full interval before retrying
+            ...(mode === 'auto' ? { lastAutoSaveTime: timestamp } : {}),
+          });
+          return failure;
         }
       },
 
       loadGame: (saveId) => {
+        const state = get();
+        const result = readSave(saveId);
+
+        if (!result.ok) {
+          console.error(`Failed to load save ${saveId}: ${result.message}`);
+          const saveName = state.saveSlots.find(slot => slot.id === saveId)?.name;
+          set({
+            saveNotice: createNotice(state, result, saveName),
+            // Newer-build saves stay listed; a newer build can still load them
+            ...(result.error === 'schemaMismatch' ? {} : withoutSlot(state, saveId)),
+          });
+          return result;
+        }
+
+        // Stakes and unsaved play belong to the progress being left behind
+        get().closeWagers();
+        takeLivePlayer();
+
+        const saveData = result.value;
+        set({
+          currentSaveId: saveId,
+          currentRoom: saveData.currentRoom,
+          money: saveData.money,
+          ledger: saveData.ledger,
+          playerTeleportTarget: saveData.position,
+          playerLookTarget: saveData.look,
+          playerPosition: saveData.position,
+          playerLook: saveData.look,
+          inventory: saveData.inventory,
+          playedMinigames: saveData.playedMinigames,
+          spawnedBoxes: saveData.spawnedBoxes,
+          collectedBoxes: saveData.collectedBoxes,
+          playtime: saveData.playtime,
+          basketballBests: saveData.basketballBests,
+          ...MINIGAME_IDLE_STATE,
+        });
+        get().recordHistory('loaded', saveData.name);
+
+        console.log(`Game loaded: ${saveData.name}`);
+        return result;
+      },
+
+      getSaveData: (saveId) => {
+        const result = readSave(saveId);
+        if (result.ok) return result.value;
+
+        // Missing payloads are expected while another tab deletes saves;
+        // corrupt ones have just been quarantined and need the player's attention
+        if (result.error === 'corrupt') {
+          const state = get();
+          const saveName = state.saveSlots.find(slot => slot.id === saveId)?.name;
+          set({ saveNotice: createNotice(state, result, saveName), ...withoutSlot(state, saveId) });
+        }
+        return null;
+      },
+
+      importSave: (data) => {
+        const state = get();
+        const timestamp = Date.now();
+        const saveId = `import_${timestamp}_${rng('ids').id(9)}`;
+        const saveData: SaveData = { ...data, id: saveId, timestamp };
+
         try {
-          const raw = localStorage.getItem(`mini3d_save_${saveId}`);
-          if (!raw) return false;
+          writeSave(saveData);
+
+          const newSlot: SaveSlot = {
+            id: saveId,
+            name: saveData.name,
+            timestamp,
+            mode: 'manual',
+            currentRoom: saveData.currentRoom,
+            money: saveData.money,
+            playtime: saveData.playtime,
+          };
+          set({
+            saveSlots: [newSlot, ...state.saveSlots].sort((a, b) => b.timestamp - a.timestamp),
+          });
 
-          const saveData = JSON.parse(raw) as SaveData;
+          console.log(`Save imported: ${saveData.name}`);
+          return saveOk(saveId);
+        } catch (error) {
+          console.error('Failed to import save:', error);
+          const failure = toSaveFailure(error);
+          set({ saveNotice: createNotice(get(), failure, saveData.name) });
+          return failure;
+        }
+      },
 
+      overwriteSave: (saveId) => {
+        get().commitLivePlayer();
+        const state = get();
+        const slot = state.saveSlots.find(s => s.id === saveId);
+        if (!slot) return saveFailure('missingSlot', `No save slot ${saveId}`);
+
+        const saveData = createSnapshot(state, {
+          id: saveId,
+          name: slot.name,
+          timestamp: Date.now(),
+          lastAutoSave: state.lastAutoSaveTime,
+        });
+
+        try {
+          writeSave(saveData);
           set({
             currentSaveId: saveId,
-            currentRoom: saveData.currentRoom,
-            money: saveData.money,
-            playerTeleportTarget: saveData.position,
-            isNearMiniGame: false,
-            isMiniGameActive: false,
-            isNearBasketball: false,
-            isBasketballActive: false,
-            isHoldingBall: false,
-            throwPower: 0,
-            isChargingThrow: false,
-            basketballScore: 0,
-            basketballAttempts: 0,
-            basketballBetAmount: 0,
-            basketballBetPlaced: false,
-            lastBasketballResult: null,
-            diceResult: null,
-            currentBet: null,
-            betAmount: 0,
-            shouldTriggerRoll: false,
+            saveSlots: state.saveSlots
+              .map(s => (s.id === saveId ? toSlot(saveData, s.mode) : s))
+              .sort((a, b) => b.timestamp - a.timestamp),
           });
+          console.log(`Game saved (overwrite): ${saveData.name}`);
+          return saveOk(saveId);
+        } catch (error) {
+          console.error('Failed to overwrite save:', error);
+          const failure = toSaveFailure(error);
+          set({ saveNotice: createNotice(get(), failure, slot.name) });
+          return failure;
+        }
+      },
 
-          console.log(`Game loaded: ${saveData.name}`);
-          return true;
+      renameSave: (saveId, name) => {
+        const state = get();
+        const trimmed = name.trim();
+        const data = state.getSaveData(saveId);
+        if (!data) return saveFailure('missingSlot', `No save data for ${saveId}`);
+        if (!trimmed) return saveOk(saveId);
+
+        try {
+          writeSave({ ...data, name: trimmed });
+          set({
+            saveSlots: state.saveSlots.map(s => (s.id === saveId ? { ...s, name: trimmed } : s)),
+          });
+          return saveOk(saveId);
         } catch (error) {
-          console.error('Failed to load game:', error);
-          return false;
+          console.error('Failed to rename save:', error);
+          const failure = toSaveFailure(error);
+          set({ saveNotice: createNotice(get(), failure, data.name) });
+          return failure;
         }
       },
 
+      setSaveMenuOpen: (open) => set({ isSaveMenuOpen: open }),
+
       quickSave: () => {
-        const state = get();
-        const roomConfig = ROOM_CONFIGS[state.currentRoom];
-        const spawnPos = roomConfig?.spawnPosition || { x: 0, y: PLAYER_CONFIG.spawnHeight, z: 0 };
-        const position = state.playerTeleportTarget || {
-          x: spawnPos.x,
-          y: spawnPos.y,
-          z: spawnPos.z
-        };
-        return state.saveGame(position, 'quick');
+        return get().saveGame(undefined, 'quick');
       },
 
       deleteSave: (saveId) => {
         try {
           const state = get();
-          localStorage.removeItem(`mini3d_save_${saveId}`);
+          removeSavePayload(saveId);
 
           const updatedSlots = state.saveSlots.filter(slot => slot.id !== saveId);
 
@@ -427,6 +777,102 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      pruneSaves: (saveIds) => {
+        const state = get();
+        const removed = saveIds.filter(saveId => state.deleteSave(saveId)).length;
+        set({ saveNotice: null });
+        console.log(`Pruned ${removed} save(s) to free storage`);
+        return removed;
+      },
+
+      // Failures that surface outside of a save action (async backend writes).
+      // By then the save was already indexed, so the slot follows whatever the
+      // backend rolled back to: the previous payload, or no save at all.
+      reportSaveError: (error, key) => {
+        const state = get();
+        const failure = toSaveFailure(error);
+        const slot = key ? state.saveSlots.find(s => saveKey(s.id) === key) : undefined;
+        if (!slot) {
+          set({ saveNotice: createNotice(state, failure) });
+          return;
+        }
+
+        const result = readSave(slot.id);
+        if (!result.ok) removeSavePayload(slot.id);
+        const saveSlots = result.ok
+          ? state.saveSlots
+            .map(s => (s.id === slot.id ? {
+              ...s,
+              name: result.value.name,
+              timestamp: result.value.timestamp,
+              currentRoom: result.value.currentRoom,
+              money: result.value.money,
+              playtime: result.value.playtime,
+            } : s))
+            .sort((a, b) => b.timestamp - a.timestamp)
+          : state.saveSlots.filter(s => s.id !== slot.id);
+
+        set({
+          saveSlots,
+          saveNotice: createNotice(state, failure, slot.name),
+          ...(!result.ok && state.currentSaveId === slot.id ? { currentSaveId: null } : {}),
+        });
+      },
+
+      dismissSaveNotice: () => set({ saveNotice: null }),
+
+      // REWIND HISTORY
+      // ------------------------------------------------------------------------
+      recordHistory: (event, detail) => {
+        get().commitLivePlayer();
+        const state = get();
+        const timestamp = Date.now();
+        const entry: HistoryEntry = {
+          id: `${timestamp}_${rng('ids').id(5)}`,
+          timestamp,
+          event,
+          detail,
+          snapshot: {
+            currentRoom: state.currentRoom,
+            money: state.money,
+            inventory: state.inventory,
+            playedMinigames: state.playedMinigames,
+            spawnedBoxes: state.spawnedBoxes,
+            collectedBoxes: state.collectedBoxes,
+            playtime: state.playtime,
+          },
+        };
+        const history = appendHistory(state.history, entry);
+        writeHistory(getSaveStorage(), history);
+        set({ history });
+      },
+
+      // Restores progress from an entry and drops the player at that room's
+      // spawn. Later entries are kept, so a rewind can itself be undone.
+      rewindTo: (entryId) => {
+        const entry = get().history.find(e => e.id === entryId);
+        if (!entry) return false;
+
+        const { money, ...snapshot } = entry.snapshot;
+        const position = getSpawnPosition(snapshot.currentRoom);
+        get().closeWagers();
+        takeLivePlayer();
+        // Money moves through the ledger so the rewind shows up in the audit
+        get().applyMoneyChange(money - get().money, 'system', 'rewind');
+        set({
+          ...snapshot,
+          playerTeleportTarget: position,
+          playerLookTarget: { yaw: 0, pitch: 0 },
+          playerPosition: position,
+          playerLook: { yaw: 0, pitch: 0 },
+          ...MINIGAME_IDLE_STATE,
+        });
+        get().recordHistory('rewound', new Date(entry.timestamp).toLocaleTimeString());
+
+        console.log(`Rewound to ${entry.event} at ${new Date(entry.timestamp).toLocaleTimeString()}`);
+        return true;
+      },
+
       getSaveSlotName: (mode) => {
         const now = new Date();
         const timeStr = now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -451,9 +897,7 @@ export const useGameStore = create<GameStore>()(
       clearAllSaves: () => {
         try {
           const state = get();
-          state.saveSlots.forEach(slot => {
-            localStorage.removeItem(`mini3d_save_${slot.id}`);
-          });
+          state.saveSlots.forEach(slot => removeSavePayload(slot.id));
 
           set({
             saveSlots: [],
@@ -468,6 +912,79 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      cleanupOrphanSaves: () => {
+        // A save another tab just wrote may not be in our slot index yet
+        if (hasOtherTabs()) {
+          console.log('Skipping orphan cleanup: another tab is using the saves');
+          return 0;
+        }
+        get().reconcileSaveSlots();
+
+        const storage = getSaveStorage();
+        const orphans = findOrphanSaveKeys(storage, get().saveSlots);
+        orphans.forEach(key => storage.removeItem(key));
+        if (orphans.length > 0) {
+          console.log(`Removed ${orphans.length} orphaned save(s)`);
+        }
+        return orphans.length;
+      },
+
+      // Merges the slot index another tab persisted with ours. Payloads are
+      // the source of truth: slots whose payload is gone are dropped and names
+      // are read back from the payload so renames in either tab stick.
+      reconcileSaveSlots: () => {
+        const state = get();
+        const storage = getSaveStorage();
+
+        let remoteSlots: SaveSlot[] = [];
+        try {
+          const persisted = JSON.parse(storage.getItem(SETTINGS_KEY) ?? '{}');
+          if (Array.isArray(persisted?.state?.saveSlots)) remoteSlots = persisted.state.saveSlots;
+        } catch (error) {
+          console.error('Failed to read persisted save slots:', error);
+        }
+
+        const slotPrint = (slot: SaveSlot) => `${slot.id}:${slot.timestamp}:${slot.name}`;
+        const fingerprint = (slots: SaveSlot[]) => slots.map(slotPrint).join('|');
+        // Nothing moved in the index: skip reading any payloads
+        if (fingerprint(remoteSlots) === fingerprint(state.saveSlots)) return;
+
+        const merged = new Map<string, SaveSlot>();
+        [...remoteSlots, ...state.saveSlots].forEach(slot => {
+          const existing = merged.get(slot.id);
+          if (!existing || slot.timestamp > existing.timestamp) merged.set(slot.id, slot);
+        });
+
+        // Slots both indexes agree on only need their payload to still exist;
+        // the rest are parsed to pick up names renamed elsewhere
+        const remotePrints = new Set(remoteSlots.map(slotPrint));
+        const agreed = new Set(state.saveSlots.map(slotPrint).filter(print => remotePrints.has(print)));
+        const present: SaveSlot[] = [];
+        merged.forEach(slot => {
+          if (agreed.has(slotPrint(slot))) {
+            if (storage.getItem(saveKey(slot.id)) !== null) present.push(slot);
+            return;
+          }
+          const data = state.getSaveData(slot.id);
+          if (data) present.push(data.name === slot.name ? slot : { ...slot, name: data.name });
+        });
+
+        const { kept, evicted } = applyRetention(present);
+        evicted.forEach(slot => removeSavePayload(slot.id));
+
+        // Only write back on a real change, otherwise tabs would echo forever
+        if (fingerprint(kept) === fingerprint(state.saveSlots)) return;
+
+        const currentSaveId = kept.some(slot => slot.id === state.currentSaveId)
+          ? state.currentSaveId
+          : null;
+        set({ saveSlots: kept, currentSaveId });
+      },
+
+      setTabPresence: ({ otherTabs, conflictSaveId }) => {
+        set({ otherTabCount: otherTabs, saveConflictId: conflictSaveId });
+      },
+
       toggleAutoSave: () => {
         set((state) => ({ autoSaveEnabled: !state.autoSaveEnabled }));
       },
@@ -488,26 +1005,33 @@ export const useGameStore = create<GameStore>()(
         return false;
       },
 
+      // Folds the pose and playtime Player.tsx sampled since the last call
+      // into the store; done right before progress is snapshotted
+      commitLivePlayer: () => {
+        const { position, look, playtime } = takeLivePlayer();
+        if (!position && playtime === 0) return;
+        set((state) => ({
+          ...(position && look ? { playerPosition: position, playerLook: look } : {}),
+          playtime: state.playtime + playtime,
+        }));
+      },
+
       // ROOM MANAGEMENT
       // ------------------------------------------------------------------------
       setCurrentRoom: (room) => {
-        const config = ROOM_CONFIGS[room];
-        const spawn = config?.spawnPosition;
-        const position = spawn
-          ? { x: spawn.x, y: spawn.y, z: spawn.z }
-          : { x: 0, y: PLAYER_CONFIG.spawnHeight, z: 0 };
+        const position = getSpawnPosition(room);
+        get().closeWagers();
+        clearLivePose();
 
         set({
           currentRoom: room,
-          diceResult: null,
-          isNearMiniGame: false,
-          isNearBasketball: false,
-          currentBet: null,
-          betAmount: 0,
-          shouldTriggerRoll: false,
+          playerPosition: position,
+          playerLook: { yaw: 0, pitch: 0 },
+          ...MINIGAME_IDLE_STATE,
         });
 
-        get().saveGame(position, 'auto');
+        get().recordHistory('roomChanged', room);
+        get().saveGame(undefined, 'auto');
       },
 
       setIsPlaying: (playing) => set({ isPlaying: playing }),
@@ -516,54 +1040,122 @@ export const useGameStore = create<GameStore>()(
       setIsLocked: (locked) => set({ isLocked: locked }),
 
       teleportToRoom: (room) => {
-        const config = ROOM_CONFIGS[room];
-        const spawn = config?.spawnPosition;
-        const position = spawn
-          ? { x: spawn.x, y: spawn.y, z: spawn.z }
-          : { x: 0, y: PLAYER_CONFIG.spawnHeight, z: 0 };
+        const position = getSpawnPosition(room);
+        get().closeWagers();
+        clearLivePose();
 
         set({
           currentRoom: room,
-          nearPortal: null,
-          isNearMiniGame: false,
-          isMiniGameActive: false,
-          isNearBasketball: false,
-          isBasketballActive: false,
-          isHoldingBall: false,
-          throwPower: 0,
-          isChargingThrow: false,
-          basketballScore: 0,
-          basketballAttempts: 0,
-          basketballBetAmount: 0,
-          basketballBetPlaced: false,
-          lastBasketballResult: null,
-          diceResult: null,
-          currentBet: null,
-          betAmount: 0,
-          shouldTriggerRoll: false,
+          playerPosition: position,
+          playerLook: { yaw: 0, pitch: 0 },
+          ...MINIGAME_IDLE_STATE,
         });
 
-        get().saveGame(position, 'auto');
+        get().recordHistory('roomChanged', room);
+        get().saveGame(undefined, 'auto');
       },
 
       // ========================================================================
       // ECONOMY ACTIONS
       // ========================================================================
+      // Every balance change goes through here and lands in the ledger.
+      // Changes that would leave the balance negative are rejected.
+      applyMoneyChange: (amount, source, reason) => {
+        const state = get();
+        const balance = state.money + amount;
+        if (balance < 0) return false;
+        if (amount === 0) return true;
+
+        set({
+          money: balance,
+          ledger: appendLedger(state.ledger, createLedgerEntry(amount, balance, source, reason)),
+        });
+        return true;
+      },
+
+      // Debug panel override; recorded as an adjustment
       setMoney: (amount) => {
-        set({ money: Math.max(0, amount) });
+        const state = get();
+        state.applyMoneyChange(Math.max(0, amount) - state.money, 'debug', 'adjustment');
       },
 
-      addMoney: (amount) => {
-        set((state) => ({ money: state.money + amount }));
+      // WAGERS
+      // ------------------------------------------------------------------------
+      // The stake leaves the balance when the wager opens; whatever the game
+      // pays back (or refunds) is credited when it closes.
+      openWager: (game, stake, inPlay = false) => {
+        const state = get();
+        if (stake <= 0 || state.wagers[game]) return false;
+        if (!state.applyMoneyChange(-stake, game, 'bet')) return false;
+
+        set((s) => ({ wagers: { ...s.wagers, [game]: createWager(game, stake, inPlay) } }));
+        return true;
       },
 
-      removeMoney: (amount) => {
+      // Grows or shrinks a wager that is not yet in play (multi-bet games)
+      adjustWager: (game, delta) => {
         const state = get();
-        if (state.money >= amount) {
-          set({ money: state.money - amount });
-          return true;
-        }
-        return false;
+        const wager = state.wagers[game];
+        if (!wager) return delta > 0 && state.openWager(game, delta);
+        if (wager.inPlay || delta === 0 || wager.stake + delta < 0) return false;
+        if (!state.applyMoneyChange(-delta, game, delta > 0 ? 'bet' : 'refund')) return false;
+
+        const stake = wager.stake + delta;
+        set((s) => ({ wagers: { ...s.wagers, [game]: stake > 0 ? { ...wager, stake } : undefined } }));
+        return true;
+      },
+
+      markWagerInPlay: (game) => {
+        const wager = get().wagers[game];
+        if (!wager || wager.inPlay) return;
+        set((s) => ({ wagers: { ...s.wagers, [game]: { ...wager, inPlay: true } } }));
+      },
+
+      // Credits a partial result and keeps the wager open (per-round payouts)
+      payoutWager: (game, outcome) => {
+        const state = get();
+        const wager = state.wagers[game];
+        if (!wager) return 0;
+
+        const payout = WAGER_PAYOUTS[game](wager.stake, outcome);
+        state.applyMoneyChange(payout, game, 'payout');
+        return payout;
+      },
+
+      settleWager: (game, outcome) => {
+        const payout = get().payoutWager(game, outcome);
+        set((s) => ({ wagers: { ...s.wagers, [game]: undefined } }));
+        return payout;
+      },
+
+      refundWager: (game) => {
+        const state = get();
+        const wager = state.wagers[game];
+        if (!wager) return false;
+
+        state.applyMoneyChange(wager.stake, game, 'refund');
+        set((s) => ({ wagers: { ...s.wagers, [game]: undefined } }));
+        return true;
+      },
+
+      forfeitWager: (game) => {
+        const wager = get().wagers[game];
+        if (!wager) return;
+        console.log(`Wager forfeited: ${game} (${wager.stake})`);
+        set((s) => ({ wagers: { ...s.wagers, [game]: undefined } }));
+      },
+
+      // Called whenever a game is abandoned (room exit, load, reset, rewind)
+      closeWagers: (games) => {
+        const state = get();
+        const open = Object.values(state.wagers).filter(
+          (wager) => wager && (!games || games.includes(wager.game))
+        );
+        open.forEach((wager) => {
+          if (!wager) return;
+          if (exitResolution(wager) === 'refund') state.refundWager(wager.game);
+          else state.forfeitWager(wager.game);
+        });
       },
 
       // ========================================================================
@@ -574,34 +1166,97 @@ export const useGameStore = create<GameStore>()(
       setDiceResult: (result) => set({ diceResult: result }),
       setIsRolling: (rolling) => set({ isRolling: rolling }),
 
-      triggerRoll: () => {
+      triggerRoll: (gesture) => {
         const state = get();
-        if (state.isRolling || state.currentBet === null || state.betAmount <= 0) return;
+        if (state.isRolling || state.diceBets.length === 0) return;
+        state.markWagerInPlay('minigame1');
         set({
           shouldTriggerRoll: true,
-          lastBetForResult: state.currentBet,
-          lastBetAmountForResult: state.betAmount,
+          lastDiceBets: state.diceBets,
+          diceRerolls: 0,
+          diceRollRefunded: false,
+          pendingDiceThrow: gesture ?? null,
         });
       },
 
       clearTriggerRoll: () => set({ shouldTriggerRoll: false }),
 
-      setCurrentBet: (bet) => set({ currentBet: bet }),
-      setBetAmount: (amount) => set({ betAmount: amount }),
+      // Bets are priced for one mode, so it can only change with an empty board
+      setDiceCount: (count) => {
+        const state = get();
+        if (state.isRolling || state.diceBets.length > 0) return;
+        set({ diceCount: count, diceResult: null });
+      },
 
-      placeBet: (predictedSum, amount) => {
+      // Same rule for the edge, so a roll always settles at the odds it was bet on
+      setDiceHouseEdge: (edge) => {
         const state = get();
-        if (state.money < amount || amount <= 0) return false;
-        if (predictedSum < 2 || predictedSum > 12) return false;
+        if (state.isRolling || state.diceBets.length > 0) return;
+        set({ diceHouseEdge: Math.min(Math.max(edge, 0), MAX_DICE_HOUSE_EDGE), diceResult: null });
+      },
 
+      setDiceThrowMode: (mode) => set({ diceThrowMode: mode }),
+
+      // All bets on the board share one wager; placing the same bet again
+      // adds to its stake
+      placeDiceBet: (spec, amount) => {
+        const state = get();
+        if (state.isRolling || amount <= 0 || !isValidDiceBet(spec, state.diceCount)) return false;
+        if (!state.adjustWager('minigame1', amount)) return false;
+
+        const existing = state.diceBets.find(bet => isSameDiceBet(bet, spec));
         set({
-          money: state.money - amount,
-          currentBet: predictedSum,
-          betAmount: amount,
+          diceBets: existing
+            ? state.diceBets.map(bet => (bet === existing ? { ...bet, amount: bet.amount + amount } : bet))
+            : [...state.diceBets, {
+              ...spec,
+              id: `${Date.now()}_${rng('ids').id(5)}`,
+              amount,
+            }],
         });
         return true;
       },
 
+      removeDiceBet: (betId) => {
+        const state = get();
+        const bet = state.diceBets.find(b => b.id === betId);
+        if (!bet || !state.adjustWager('minigame1', -bet.amount)) return;
+        set({ diceBets: state.diceBets.filter(b => b.id !== betId) });
+      },
+
+      clearDiceBets: () => {
+        get().refundWager('minigame1');
+        set({ diceBets: [] });
+      },
+
+      // Pays every winning bet of the roll in one settlement
+      resolveDiceRoll: (result) => {
+        const state = get();
+        const returned = resolveDiceBets(state.lastDiceBets, result, state.diceHouseEdge)
+          .reduce((total, { payout }) => total + payout, 0);
+
+        const paid = state.settleWager('minigame1', { won: returned > 0, returned });
+        set({ diceBets: [] });
+        get().recordHistory('betResolved', 'minigame1');
+        return paid;
+      },
+
+      // A void roll is thrown again on the same stake; re-rolls are random so
+      // an identical hand throw cannot land cocked the same way again
+      voidDiceRoll: () => set((state) => ({ diceRerolls: state.diceRerolls + 1, pendingDiceThrow: null })),
+
+      // The dice kept landing cocked: nobody wins, the stake goes back
+      refundDiceRoll: () => {
+        get().refundWager('minigame1');
+        set({ isRolling: false, diceBets: [], diceRollRefunded: true });
+      },
+
+      // Bets are refunded, or forfeited if the dice are already rolling
+      exitDiceGame: () => {
+        get().closeWagers(['minigame1']);
+        set({ isMiniGameActive: false, diceBets: [] });
+      },
+
       // ========================================================================
       // BASKETBALL GAME ACTIONS
       // ========================================================================
@@ -610,9 +1265,6 @@ export const useGameStore = create<GameStore>()(
       setIsHoldingBall: (holding) => set({ isHoldingBall: holding }),
       setThrowPower: (power) => set({ throwPower: Math.min(100, Math.max(0, power)) }),
       setIsChargingThrow: (charging) => set({ isChargingThrow: charging }),
-      incrementBasketballScore: () => set((state) => ({ basketballScore: state.basketballScore + 1 })),
-      incrementBasketballAttempts: () => set((state) => ({ basketballAttempts: state.basketballAttempts + 1 })),
-
       resetBasketballGame: () => set({
         basketballScore: 0,
         basketballAttempts: 0,
@@ -622,39 +1274,153 @@ export const useGameStore = create<GameStore>()(
         basketballBetAmount: 0,
         basketballBetPlaced: false,
         lastBasketballResult: null,
+        basketballShot: null,
+        basketballStreak: 0,
+        basketballRound: null,
       }),
 
+      // Sets the per-shot stake and escrows it for the first shot
       placeBasketballBet: (amount) => {
         const state = get();
         if (state.money < amount || amount <= 0) return false;
+        // Each bet starts a fresh run: a shootout gets a new round clock
         set({
-          money: state.money - amount,
           basketballBetAmount: amount,
           basketballBetPlaced: true,
           lastBasketballResult: null,
+          basketballScore: 0,
+          basketballAttempts: 0,
+          basketballStreak: 0,
+          basketballRound: state.basketballMode === 'shootout'
+            ? { timeLeft: SHOOTOUT_RULES.ROUND_TIME, shotClock: SHOOTOUT_RULES.SHOT_CLOCK, over: false }
+            : null,
+        });
+        if (get().armBasketballShot()) return true;
+
+        set({ basketballBetAmount: 0, basketballBetPlaced: false });
+        return false;
+      },
+
+      // ------------------------------------------------------------------------
+      // SHOT SETTLEMENT: armed → inFlight → scored / missed → settled
+      // ------------------------------------------------------------------------
+      // Each pickup stakes a fresh shot; grabbing the ball mid-flight gives
+      // up the shot in the air as a miss
+      armBasketballShot: () => {
+        const state = get();
+        if (!state.basketballBetPlaced || state.basketballRound?.over) return false;
+        if (state.basketballShot?.phase === 'armed') return true;
+        // A pickup that can't be staked leaves the shot in the air to finish
+        if (state.basketballBetAmount <= 0 || state.money < state.basketballBetAmount) return false;
+        if (state.basketballShot?.phase === 'inFlight') {
+          state.resolveBasketballShot({ missReason: 'abandoned' });
+        }
+
+        if (!get().openWager('minigame2', state.basketballBetAmount)) return false;
+        set({
+          basketballShot: {
+            id: get().wagers.minigame2!.id,
+            phase: 'armed',
+            stake: state.basketballBetAmount,
+          },
         });
         return true;
       },
 
-      resolveBasketballBet: (scored) => {
+      releaseBasketballShot: () => {
+        const shot = get().basketballShot;
+        if (shot?.phase !== 'armed') return;
+
+        get().markWagerInPlay('minigame2');
+        set((state) => ({
+          basketballShot: { ...shot, phase: 'inFlight' },
+          basketballAttempts: state.basketballAttempts + 1,
+          lastBasketballResult: null,
+          basketballRound: state.basketballRound && { ...state.basketballRound, shotClock: SHOOTOUT_RULES.SHOT_CLOCK },
+        }));
+      },
+
+      // The only path that pays a basketball shot: only a shot in flight can
+      // be decided, and deciding it settles the wager, so it pays exactly once
+      resolveBasketballShot: (result) => {
         const state = get();
-        if (!state.basketballBetPlaced) return;
+        const shot = state.basketballShot;
+        if (shot?.phase !== 'inFlight') return;
 
-        if (scored) {
-          set({
-            money: state.money + state.basketballBetAmount * 2,
-            lastBasketballResult: 'win',
-            basketballBetPlaced: false,
-          });
-        } else {
+        const scored = 'kind' in result;
+        const decided: BasketballShot = { ...shot, ...result, phase: scored ? 'scored' : 'missed' };
+        set({ basketballShot: decided });
+
+        const mode = state.basketballMode;
+        const multiplier = basketballShotMultiplier(mode, {
+          streak: state.basketballStreak,
+          timeLeft: state.basketballRound?.timeLeft,
+        });
+        const payout = get().settleWager('minigame2', { won: scored, multiplier });
+        const settled: BasketballShot = { ...decided, phase: 'settled', payout, ...(scored ? { multiplier } : {}) };
+
+        const score = state.basketballScore + (scored ? 1 : 0);
+        const streak = scored ? state.basketballStreak + 1 : 0;
+        const best = basketballModeScore(mode, { score, streak });
+        set((s) => ({
+          basketballShot: settled,
+          lastBasketballResult: settled,
+          basketballScore: score,
+          basketballStreak: streak,
+          basketballBests: best > s.basketballBests[mode]
+            ? { ...s.basketballBests, [mode]: best }
+            : s.basketballBests,
+        }));
+        // Misses settle the wager too, so they get a rewind point like makes
+        get().recordHistory('betResolved', 'minigame2');
+      },
+
+      // Payout rules are per mode, so it only changes between bets
+      setBasketballMode: (mode) => {
+        if (get().basketballBetPlaced) return;
+        set({ basketballMode: mode, basketballRound: null });
+      },
+
+      // Runs the shootout clocks while the game is played and reports when
+      // the shot clock or the round horn goes, so the game can take the ball
+      tickBasketballRound: (delta) => {
+        const state = get();
+        const round = state.basketballRound;
+        if (!round || round.over) return null;
+
+        const dropBall = { isHoldingBall: false, isChargingThrow: false, throwPower: 0 };
+        const timeLeft = Math.max(0, round.timeLeft - delta);
+
+        // A staked shot that never went up is refunded; one in the air still
+        // counts when it lands
+        if (timeLeft === 0) {
+          const armed = state.basketballShot?.phase === 'armed';
+          if (armed) state.refundWager('minigame2');
           set({
-            lastBasketballResult: 'lose',
+            ...dropBall,
+            basketballRound: { ...round, timeLeft, over: true },
             basketballBetPlaced: false,
+            ...(armed ? { basketballShot: null } : {}),
           });
+          return 'horn';
         }
+
+        // The shot clock only runs with the ball in hand; running out loses
+        // the shot like a miss
+        const shotClock = state.isHoldingBall ? round.shotClock - delta : SHOOTOUT_RULES.SHOT_CLOCK;
+        if (shotClock <= 0) {
+          state.releaseBasketballShot();
+          get().resolveBasketballShot({ missReason: 'shotClock' });
+          set({ ...dropBall, basketballRound: { timeLeft, shotClock: SHOOTOUT_RULES.SHOT_CLOCK, over: false } });
+          return 'shotClock';
+        }
+
+        set({ basketballRound: { timeLeft, shotClock, over: false } });
+        return null;
       },
 
       setPlayerTeleportTarget: (target) => set({ playerTeleportTarget: target }),
+      setPlayerLookTarget: (target) => set({ playerLookTarget: target }),
 
       enterBasketballZone: () => {
         set({
@@ -664,6 +1430,9 @@ export const useGameStore = create<GameStore>()(
       },
 
       exitBasketballZone: () => {
+        // A shot in the air is lost; a staked shot still in hand is refunded
+        get().resolveBasketballShot({ missReason: 'abandoned' });
+        get().closeWagers(['minigame2']);
         set({
           playerTeleportTarget: { x: 0, y: 1.8, z: 7 },
           isBasketballActive: false,
@@ -673,6 +1442,9 @@ export const useGameStore = create<GameStore>()(
           basketballBetPlaced: false,
           basketballBetAmount: 0,
           lastBasketballResult: null,
+          basketballShot: null,
+          basketballStreak: 0,
+          basketballRound: null,
         });
       },
 
@@ -686,10 +1458,11 @@ export const useGameStore = create<GameStore>()(
         const state = get();
         if (state.money < betAmount || betAmount <= 0) return false;
 
+        // The pattern starts right away, so the stake is never refundable
+        if (!state.openWager('minigame3', betAmount, true)) return false;
         state.markMinigamePlayed('minigame3');
 
         set({
-          money: state.money - betAmount,
           simonBetAmount: betAmount,
           simonBetPlaced: true,
           simonPattern: [],
@@ -701,21 +1474,24 @@ export const useGameStore = create<GameStore>()(
         return true;
       },
 
-      exitSimonGame: () => set({
-        isSimonActive: false,
-        simonBetPlaced: false,
-        simonPattern: [],
-        simonPlayerPattern: [],
-        simonScore: 0,
-        simonIsShowingPattern: false,
-        simonCanClick: false,
-        simonLitButton: null,
-        simonIsGameOver: false,
-        simonGameMessage: '',
-      }),
+      exitSimonGame: () => {
+        get().closeWagers(['minigame3']);
+        set({
+          isSimonActive: false,
+          simonBetPlaced: false,
+          simonPattern: [],
+          simonPlayerPattern: [],
+          simonScore: 0,
+          simonIsShowingPattern: false,
+          simonCanClick: false,
+          simonLitButton: null,
+          simonIsGameOver: false,
+          simonGameMessage: '',
+        });
+      },
 
       addToSimonPattern: () => {
-        const newButton = Math.floor(Math.random() * 5);
+        const newButton = rng('simon').int(0, 4);
         set((state) => ({
           simonPattern: [...state.simonPattern, newButton],
           simonPlayerPattern: [],
@@ -733,37 +1509,40 @@ export const useGameStore = create<GameStore>()(
         const currentIndex = newPlayerPattern.length - 1;
 
         if (state.simonPattern[currentIndex] !== button) {
+          state.settleWager('minigame3', { won: false });
           set({
             simonPlayerPattern: newPlayerPattern,
             simonIsGameOver: true,
             simonCanClick: false,
             simonGameMessage: `Game over! Final score: ${state.simonScore}`,
           });
+          get().recordHistory('betResolved', 'minigame3');
           return;
         }
 
         if (newPlayerPattern.length === state.simonPattern.length) {
           const newScore = state.simonScore + 1;
-          const reward = state.simonBetAmount * newScore;
+          const outcome = { won: true, round: newScore };
 
           if (newScore >= 10) {
+            const reward = state.settleWager('minigame3', outcome);
             set({
               simonPlayerPattern: newPlayerPattern,
               simonScore: newScore,
-              money: state.money + reward,
               simonGameMessage: `Cleared 10 rounds! Reward: +${reward}`,
               simonCanClick: false,
               simonIsGameOver: true,
             });
           } else {
+            const reward = state.payoutWager('minigame3', outcome);
             set({
               simonPlayerPattern: newPlayerPattern,
               simonScore: newScore,
-              money: state.money + reward,
               simonGameMessage: `Correct! +${reward}`,
               simonCanClick: false,
             });
           }
+          get().recordHistory('betResolved', 'minigame3');
         } else {
           set({ simonPlayerPattern: newPlayerPattern });
         }
@@ -796,6 +1575,8 @@ export const useGameStore = create<GameStore>()(
       },
 
       resetGame: () => {
+        get().closeWagers();
+        takeLivePlayer();
         set({
           currentRoom: 'main',
           isPlaying: false,
@@ -803,7 +1584,13 @@ export const useGameStore = create<GameStore>()(
           nearRewardBox: null,
           isLocked: false,
           playerTeleportTarget: null,
-          money: 100,
+          playerLookTarget: null,
+          playerPosition: getSpawnPosition('main'),
+          playerLook: { yaw: 0, pitch: 0 },
+          money: STARTING_MONEY,
+          ledger: openingLedger(),
+          wagers: {},
+          playtime: 0,
           playedMinigames: {
             minigame1: false,
             minigame2: false,
@@ -814,10 +1601,12 @@ export const useGameStore = create<GameStore>()(
           diceResult: null,
           isRolling: false,
           shouldTriggerRoll: false,
-          currentBet: null,
-          betAmount: 0,
-          lastBetForResult: null,
-          lastBetAmountForResult: 0,
+          diceCount: 2,
+          diceBets: [],
+          lastDiceBets: [],
+          diceRerolls: 0,
+          diceRollRefunded: false,
+          pendingDiceThrow: null,
           isNearBasketball: false,
           isBasketballActive: false,
           isHoldingBall: false,
@@ -828,6 +1617,11 @@ export const useGameStore = create<GameStore>()(
           basketballBetAmount: 0,
           basketballBetPlaced: false,
           lastBasketballResult: null,
+          basketballShot: null,
+          basketballStreak: 0,
+          basketballRound: null,
+          basketballMode: 'classic',
+          basketballBests: emptyBasketballBests(),
           isNearSimon: false,
           isSimonActive: false,
           simonBetAmount: 10,
@@ -862,7 +1656,7 @@ export const useGameStore = create<GameStore>()(
         if (state.inventory.length >= 3) return;
         if (state.inventory.some(item => item.minigameId === minigameId)) return;
 
-        const colors: Record<'minigame1' | 'minigame2' | 'minigame3' | 'minigame4', string> = {
+        const colors: Record<InventoryItem['minigameId'], string> = {
           minigame1: '#ff6b6b',
           minigame2: '#4ecdc4',
           minigame3: '#ffe66d',
@@ -908,10 +1702,11 @@ export const useGameStore = create<GameStore>()(
             [minigameId]: true,
           },
         }));
+        get().recordHistory('rewardCollected', minigameId);
       },
     }),
     {
-      name: 'mini3d-game-settings',
+      name: SETTINGS_KEY,
       partialize: (state) => ({
         // Only persist these fields from the save system
         saveSlots: state.saveSlots,
@@ -920,7 +1715,60 @@ export const useGameStore = create<GameStore>()(
         autoSaveInterval: state.autoSaveInterval,
         lastAutoSaveTime: state.lastAutoSaveTime,
       }),
-      storage: createJSONStorage(() => localStorage),
+      storage: createJSONStorage(() => getSaveStorage()),
+      version: 2,
+      migrate: (persisted, version) => {
+        const settings = persisted as {
+          saveSlots?: Array<Omit<SaveSlot, 'mode'> & Partial<SaveSlot> & { thumbnail?: string }>;
+        };
+        // v0 -> v1: slots gained a mode for per-mode retention
+        if (version < 1 && Array.isArray(settings.saveSlots)) {
+          settings.saveSlots = settings.saveSlots.map(slot => ({
+            ...slot,
+            mode: slot.mode ?? inferSaveMode(slot.id),
+          }));
+        }
+        // v1 -> v2: thumbnails moved out of the slot index into their own keys
+        if (version < 2 && Array.isArray(settings.saveSlots)) {
+          settings.saveSlots = settings.saveSlots.map(({ thumbnail, ...slot }) => {
+            if (!thumbnail) return slot;
+            try {
+              getSaveStorage().setItem(thumbnailKey(slot.id), thumbnail);
+              return { ...slot, hasThumbnail: true };
+            } catch (error) {
+              console.warn('Failed to move save thumbnail:', error);
+              return slot;
+            }
+          });
+        }
+        return settings as Partial<GameStore>;
+      },
+      // Hydrated from main.tsx once the save storage backend is ready
+      skipHydration: true,
     }
   )
-);
\ No newline at end of file
+);
+
+// ============================================================================
+// PROFILE SWITCHING
+// ============================================================================
+// Swaps the in-memory save state for the newly scoped profile's. Call after
+// setProfileScope(); order matters because every set() persists settings into
+// whichever profile is currently in scope.
+export async function reloadProfileSaves() {
+  // A fresh profile starts from the defaults rather than inheriting the
+  // previous profile's slot index
+  if (getSaveStorage().getItem(SETTINGS_KEY) === null) {
+    useGameStore.setState({ ...DEFAULT_SAVE_SETTINGS });
+  }
+  await useGameStore.persist.rehydrate();
+
+  const state = useGameStore.getState();
+  state.resetGame();
+  useGameStore.setState({
+    saveNotice: null,
+    saveConflictId: null,
+    isSaveMenuOpen: false,
+    history: readHistory(getSaveStorage()),
+  });
+}
@@ -1,6 +1,14 @@
 import { useRef, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
 import * as CANNON from 'cannon-es';
 import { PHYSICS_CONFIG, PLAYER_CONFIG } from '../config/rooms';
+import {
+  PHYSICS_MATERIALS,
+  addContactMaterial,
+  addPhysicsBody,
+  getPhysicsWorld,
+  stepPhysics,
+} from '../physics/physicsWorld';
 
 // ============================================================================
 // PHYSICS HOOK
@@ -19,37 +27,20 @@ export function usePhysics() {
   // ==========================================================================
   useEffect(() => {
   
-    // WORLD CREATION
-    const world = new CANNON.World();
-    world.gravity.set(0, PHYSICS_CONFIG.gravity, 0);
-    world.broadphase = new CANNON.NaiveBroadphase();
-    
-    // MATERIAL CREATION
-    const groundMaterial = new CANNON.Material('ground');
-    const wallMaterial = new CANNON.Material('wall');
-    const playerMaterial = new CANNON.Material('player');
+    // SHARED WORLD (see physics/physicsWorld.ts)
+    const world = getPhysicsWorld();
 
-    // CONTACT MATERIALS (PLAYER-GROUND)
-    const playerGroundContact = new CANNON.ContactMaterial(
-      playerMaterial,
-      groundMaterial,
-      {
+    // CONTACT MATERIALS (PLAYER-GROUND, PLAYER-WALL)
+    const releaseContacts = [
+      addContactMaterial('player', 'ground', {
         friction: PHYSICS_CONFIG.groundFriction,
         restitution: PHYSICS_CONFIG.groundRestitution,
-      }
-    );
-    world.addContactMaterial(playerGroundContact);
-
-    // CONTACT MATERIALS (PLAYER-WALL)
-    const playerWallContact = new CANNON.ContactMaterial(
-      playerMaterial,
-      wallMaterial,
-      {
+      }),
+      addContactMaterial('player', 'wall', {
         friction: PHYSICS_CONFIG.wallFriction,
         restitution: PHYSICS_CONFIG.wallRestitution,
-      }
-    );
-    world.addContactMaterial(playerWallContact);
+      }),
+    ];
 
     // PLAYER BODY CREATION
     const playerShape = new CANNON.Sphere(PLAYER_CONFIG.radius);
@@ -57,26 +48,36 @@ export function usePhysics() {
       mass: PLAYER_CONFIG.mass,
       position: new CANNON.Vec3(0, PLAYER_CONFIG.spawnHeight, 0),
       shape: playerShape,
-      material: playerMaterial,
+      material: PHYSICS_MATERIALS.player,
       fixedRotation: true,
       linearDamping: 0,
       angularDamping: 1,
     });
-    world.addBody(playerBody);
+    const releasePlayer = addPhysicsBody(playerBody);
 
     // STORE REFERENCES
     worldRef.current = world;
     playerBodyRef.current = playerBody;
-    groundMaterialRef.current = groundMaterial;
-    wallMaterialRef.current = wallMaterial;
+    groundMaterialRef.current = PHYSICS_MATERIALS.ground;
+    wallMaterialRef.current = PHYSICS_MATERIALS.wall;
 
     // CLEANUP FUNCTION
     return () => {
       bodiesRef.current.forEach(body => world.removeBody(body));
       bodiesRef.current = [];
+      releasePlayer();
+      releaseContacts.forEach(release => release());
+      worldRef.current = null;
+      playerBodyRef.current = null;
     };
   }, []);
 
+  // ==========================================================================
+  // FIXED-STEP SCHEDULER
+  // ==========================================================================
+  // Negative priority: the world advances before any game reads it this frame
+  useFrame((_, delta) => stepPhysics(delta), -1);
+
   // ==========================================================================
   // PHYSICS WORLD ACTIONS
   // ==========================================================================
@@ -105,13 +106,6 @@ export function usePhysics() {
     }
   };
 
-  // STEP PHYSICS SIMULATION
-  const step = (delta: number) => {
-    if (worldRef.current) {
-      worldRef.current.step(1 / 60, delta, 3);
-    }
-  };
-
   // ==========================================================================
   // RETURN VALUES
   // ==========================================================================
@@ -123,6 +117,5 @@ export function usePhysics() {
     addBody,
     removeBody,
     clearBodies,
-    step,
   };
 }
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { getRootStorage, removeProfileData, setProfileScope, PROFILES_KEY } from '../save/saveStorage';
+import { reloadProfileSaves } from './useGameStore';
+import { useI18nStore, type Language } from './useI18n';
+import { useThemeStore } from './useTheme';
+import { rng } from '../utils/rng';
+import { onLivePlaytime } from '../utils/livePlayer';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export interface ProfileStats {
+  sessions: number;
+  playtime: number; // seconds, across every save of the profile
+  lastPlayedAt: number | null;
+}
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  language: Language;
+  darkMode: boolean | null; // null follows the system preference
+  stats: ProfileStats;
+}
+
+interface ProfileStore {
+  profiles: PlayerProfile[];
+  activeProfileId: string | null;
+
+  ensureDefaultProfile: () => void;
+  createProfile: (name: string) => string | null;
+  renameProfile: (profileId: string, name: string) => boolean;
+  deleteProfile: (profileId: string) => boolean;
+  selectProfile: (profileId: string) => Promise<void>;
+  startSession: () => void;
+  addProfilePlaytime: (seconds: number) => void;
+  updateActiveProfile: (patch: Partial<Pick<PlayerProfile, 'language' | 'darkMode'>>) => void;
+}
+
+// ============================================================================
+// PROFILE SCOPES
+// ============================================================================
+// The first profile owns the save keys written before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+const profileScope = (profileId: string) => (profileId === DEFAULT_PROFILE_ID ? null : profileId);
+
+function createProfileRecord(id: string, name: string): PlayerProfile {
+  return {
+    id,
+    name,
+    createdAt: Date.now(),
+    language: useI18nStore.getState().language,
+    darkMode: null,
+    stats: { sessions: 0, playtime: 0, lastPlayedAt: null },
+  };
+}
+
+// ============================================================================
+// PROFILE STORE CREATION
+// ============================================================================
+export const useProfileStore = create<ProfileStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      activeProfileId: null,
+
+      // Existing players get a profile wrapping their current saves
+      ensureDefaultProfile: () => {
+        if (get().profiles.length > 0) return;
+        set({
+          profiles: [createProfileRecord(DEFAULT_PROFILE_ID, 'Player 1')],
+          activeProfileId: DEFAULT_PROFILE_ID,
+        });
+      },
+
+      createProfile: (name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return null;
+
+        const profileId = `profile_${Date.now()}_${rng('ids').id(9)}`;
+        set((state) => ({ profiles: [...state.profiles, createProfileRecord(profileId, trimmed)] }));
+        return profileId;
+      },
+
+      renameProfile: (profileId, name) => {
+        const trimmed = name.trim();
+        if (!trimmed || !get().profiles.some(profile => profile.id === profileId)) return false;
+
+        set((state) => ({
+          profiles: state.profiles.map(profile => (
+            profile.id === profileId ? { ...profile, name: trimmed } : profile
+          )),
+        }));
+        return true;
+      },
+
+      // The active profile cannot be deleted; switch to another one first
+      deleteProfile: (profileId) => {
+        const state = get();
+        if (profileId === state.activeProfileId) return false;
+        if (!state.profiles.some(profile => profile.id === profileId)) return false;
+
+        const removed = removeProfileData(profileScope(profileId));
+        set({ profiles: state.profiles.filter(profile => profile.id !== profileId) });
+        console.log(`Deleted profile ${profileId} (${removed} stored entries)`);
+        return true;
+      },
+
+      selectProfile: async (profileId) => {
+        const profile = get().profiles.find(p => p.id === profileId);
+        if (!profile) return;
+
+        setProfileScope(profileScope(profileId));
+        set({ activeProfileId: profileId });
+        await reloadProfileSaves();
+
+        await useI18nStore.getState().setLanguage(profile.language);
+        useThemeStore.getState().setDarkMode(
+          profile.darkMode ?? window.matchMedia('(prefers-color-scheme: dark)').matches
+        );
+      },
+
+      startSession: () => {
+        set((state) => ({
+          profiles: state.profiles.map(profile => (
+            profile.id === state.activeProfileId
+              ? { ...profile, stats: { ...profile.stats, sessions: profile.stats.sessions + 1, lastPlayedAt: Date.now() } }
+              : profile
+          )),
+        }));
+      },
+
+      addProfilePlaytime: (seconds) => {
+        set((state) => ({
+          profiles: state.profiles.map(profile => (
+            profile.id === state.activeProfileId
+              ? { ...profile, stats: { ...profile.stats, playtime: profile.stats.playtime + seconds } }
+              : profile
+          )),
+        }));
+      },
+
+      updateActiveProfile: (patch) => {
+        const { activeProfileId, profiles } = get();
+        const active = profiles.find(profile => profile.id === activeProfileId);
+        if (!active || Object.entries(patch).every(([key, value]) => active[key as keyof typeof patch] === value)) {
+          return;
+        }
+        set({
+          profiles: profiles.map(profile => (profile.id === activeProfileId ? { ...profile, ...patch } : profile)),
+        });
+      },
+    }),
+    {
+      name: PROFILES_KEY,
+      storage: createJSONStorage(() => getRootStorage()),
+      // Hydrated from main.tsx once the save storage backend is ready
+      skipHydration: true,
+    }
+  )
+);
+
+// ============================================================================
+// PROFILE TRACKING
+// ============================================================================
+// Playtime is flushed in batches so the registry is not rewritten every frame
+const PLAYTIME_FLUSH_SECONDS = 15;
+
+// Records language/theme changes and playtime against the active profile
+export function startProfileTracking() {
+  useI18nStore.subscribe((state, prev) => {
+    if (state.language !== prev.language) {
+      useProfileStore.getState().updateActiveProfile({ language: state.language });
+    }
+  });
+
+  useThemeStore.subscribe((state, prev) => {
+    if (state.isDarkMode !== prev.isDarkMode) {
+      useProfileStore.getState().updateActiveProfile({ darkMode: state.isDarkMode });
+    }
+  });
+
+  let pendingPlaytime = 0;
+  const flush = () => {
+    if (pendingPlaytime <= 0) return;
+    useProfileStore.getState().addProfilePlaytime(pendingPlaytime);
+    pendingPlaytime = 0;
+  };
+
+  // Only ticks of live play count; loading a save jumps playtime around
+  onLivePlaytime((seconds) => {
+    pendingPlaytime += seconds;
+    if (pendingPlaytime >= PLAYTIME_FLUSH_SECONDS) flush();
+  });
+
+  window.addEventListener('pagehide', flush);
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useEffect, useMemo, useCallback } from 'react';
+import { create } from 'zustand';
 
 // ============================================================================
 // TYPES
@@ -114,12 +115,26 @@ const DARK_THEME: ThemeColors = {
   simonButtonLit: ['#ff6666', '#ffff66', '#66ff66', '#6666ff', '#ff66ff'],
 };
 
+// ============================================================================
+// THEME STORE
+// ============================================================================
+// Shared by every useTheme() caller; the active player profile restores and
+// records the choice (see useProfileStore).
+interface ThemeStore {
+  isDarkMode: boolean;
+  setDarkMode: (dark: boolean) => void;
+}
+
+export const useThemeStore = create<ThemeStore>()((set) => ({
+  isDarkMode: window.matchMedia('(prefers-color-scheme: dark)').matches,
+  setDarkMode: (dark) => set({ isDarkMode: dark }),
+}));
+
 // ============================================================================
 // THEME HOOK
 // ============================================================================
 export function useTheme() {
-  const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-  const [isDarkMode, setIsDarkMode] = useState(prefersDark);
+  const { isDarkMode, setDarkMode } = useThemeStore();
   
   // Memoize theme object to prevent unnecessary re-renders
   const theme = useMemo<ThemeColors>(
@@ -166,7 +181,7 @@ export function useTheme() {
     const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
     
     const handleChange = (e: MediaQueryListEvent) => {
-      setIsDarkMode(e.matches);
+      setDarkMode(e.matches);
       updateCSSVars();
     };
     
@@ -175,12 +190,12 @@ export function useTheme() {
     return () => {
       mediaQuery.removeEventListener('change', handleChange);
     };
-  }, [theme, isDarkMode]);
+  }, [theme, isDarkMode, setDarkMode]);
 
   // Toggle theme manually - use callback to prevent recreation
   const toggleTheme = useCallback(() => {
-    setIsDarkMode(prev => !prev);
-  }, []);
+    setDarkMode(!useThemeStore.getState().isDarkMode);
+  }, [setDarkMode]);
 
   return {
     isDarkMode,
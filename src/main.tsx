@@ -1,5 +1,66 @@
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { getSaveStorage, initSaveStorage, setStorageErrorHandler, SETTINGS_KEY } from './save/saveStorage';
+import { PEER_DISCOVERY_WINDOW, setActiveSave, startTabPresence } from './save/saveSync';
+import { useGameStore } from './hooks/useGameStore';
+import { DEFAULT_PROFILE_ID, startProfileTracking, useProfileStore } from './hooks/useProfileStore';
+import { dailySeed, setRngSeed } from './utils/rng';
 
-createRoot(document.getElementById('root')!).render(<App />);
+// Keeps the slot index in step with other tabs and flags shared saves
+function startCrossTabSync() {
+  const store = useGameStore.getState();
+
+  getSaveStorage().subscribe((key) => {
+    if (key === SETTINGS_KEY) useGameStore.getState().reconcileSaveSlots();
+  });
+
+  startTabPresence(store.currentSaveId, store.setTabPresence);
+  useGameStore.subscribe((state, prev) => {
+    if (state.currentSaveId !== prev.currentSaveId) setActiveSave(state.currentSaveId);
+  });
+}
+
+// ?seed=<text> replays a fixed sequence; ?seed=daily uses today's shared seed
+const seedParam = new URLSearchParams(window.location.search).get('seed');
+if (seedParam) setRngSeed(seedParam === 'daily' ? dailySeed() : seedParam);
+
+// Async backends can only report failed writes after the fact
+setStorageErrorHandler((error, key) => useGameStore.getState().reportSaveError(error, key));
+
+// Reopens the last used profile, which scopes and hydrates the game store
+async function restoreProfile() {
+  await useProfileStore.persist.rehydrate();
+  const profileStore = useProfileStore.getState();
+  profileStore.ensureDefaultProfile();
+
+  const { profiles, activeProfileId } = useProfileStore.getState();
+  const profileId = profiles.some(profile => profile.id === activeProfileId) ? activeProfileId! : profiles[0].id;
+  await profileStore.selectProfile(profileId);
+}
+
+// The last profile could not be reopened: start on the default one instead
+async function restoreDefaultProfile(error: unknown) {
+  console.error('Failed to restore the last profile:', error);
+  const profileStore = useProfileStore.getState();
+  profileStore.ensureDefaultProfile();
+
+  const { profiles } = useProfileStore.getState();
+  const profileId = profiles.some(profile => profile.id === DEFAULT_PROFILE_ID) ? DEFAULT_PROFILE_ID : profiles[0].id;
+  await profileStore.selectProfile(profileId);
+}
+
+// Open the save backend before hydrating the stores so saved slots are visible
+initSaveStorage()
+  .then(restoreProfile)
+  .catch(restoreDefaultProfile)
+  .catch((error) => console.error('Failed to open the default profile:', error))
+  .then(() => {
+    startCrossTabSync();
+    startProfileTracking();
+    // Orphan cleanup waits until other tabs have had a chance to answer
+    window.setTimeout(() => useGameStore.getState().cleanupOrphanSaves(), PEER_DISCOVERY_WINDOW);
+  })
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(<App />);
+  });
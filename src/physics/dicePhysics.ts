@@ -0,0 +1,291 @@
+import * as THREE from 'three';
+import * as CANNON from 'cannon-es';
+import type { DiceCount } from '../economy/diceBets';
+import type { DiceThrow } from '../types';
+import type { RngStream } from '../utils/rng';
+import { MINIGAME_ZONE_WALLS } from '../config/rooms';
+import { PHYSICS_MATERIALS } from './physicsWorld';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export interface DiceState {
+  body: CANNON.Body;
+  mesh: THREE.Group | null;
+  value: number;
+}
+
+export interface DiceReading {
+  value: number;
+  confidence: number; // how squarely the top face points up (1 = flat)
+}
+
+// A standalone dice table with its own world, for the headless fairness
+// simulator; in the game the dice live in the shared world
+export interface DiceTable {
+  world: CANNON.World;
+  dice: DiceState[];
+}
+
+// ============================================================================
+// DICE CONSTANTS
+// ============================================================================
+export const DICE_CONFIG = {
+  SIZE: 0.5,
+  HALF_SIZE: 0.251, // SIZE / 2 + 0.001
+  PHYSICS: {
+    GRAVITY: -30, // per-body, heavier than the player's
+    WALL_HEIGHT: MINIGAME_ZONE_WALLS.height.minigame1,
+    WALL_THICKNESS: MINIGAME_ZONE_WALLS.thickness,
+    SETTLE_THRESHOLD: 0.1,
+    PROXIMITY_RADIUS: 6,
+  },
+  TIMING: {
+    MAX_ROLL_TIME: 5,
+  },
+  // Hand throws (see DiceThrowPad): dice start on the player's side of the
+  // table and are launched along the gesture
+  THROW: {
+    START_DISTANCE: 1.2,
+    START_HEIGHT: 1.2,
+    SPREAD: 0.5,
+    LIFT: 3,
+    MIN_SPEED: 2,
+    MAX_SPEED: 8,
+    TOPSPIN: 15,
+    SIDESPIN: 12,
+  },
+  // A die counts as cocked when its top face is tilted more than ~15°
+  // or it comes to rest propped on a wall; the roll is then void.
+  // WALL_CONTACT is how close its nearest edge must be to count as touching;
+  // a die lying within FLAT_CONFIDENCE (~3°) of flat against a wall reads as usual
+  COCKED: {
+    MIN_CONFIDENCE: 0.965,
+    FLAT_CONFIDENCE: 0.9985,
+    WALL_CONTACT: 0.01,
+    MAX_REROLLS: 5,
+  },
+  // [x, z] offsets from the table centre, per dice count
+  REST_OFFSETS: {
+    2: [[-0.6, 0], [0.6, 0]],
+    3: [[-0.9, 0], [0, 0], [0.9, 0]],
+  },
+  ROLL_OFFSETS: {
+    2: [[-0.8, 0], [0.8, 0]],
+    3: [[-1, 0], [0, 0.4], [1, 0]],
+  },
+} as const;
+
+// Dice against the room floor and the zone's containment walls
+export const DICE_CONTACTS: Record<'ground' | 'wall', CANNON.ContactMaterialOptions> = {
+  ground: { friction: 0.5, restitution: 0.3 },
+  wall: { friction: 0.1, restitution: 0.5 },
+};
+
+const DICE_FACES = [
+  { normal: new THREE.Vector3(0, 1, 0), value: 1 },   // Top
+  { normal: new THREE.Vector3(0, -1, 0), value: 6 },  // Bottom
+  { normal: new THREE.Vector3(1, 0, 0), value: 3 },   // Right
+  { normal: new THREE.Vector3(-1, 0, 0), value: 4 },  // Left
+  { normal: new THREE.Vector3(0, 0, 1), value: 2 },   // Front
+  { normal: new THREE.Vector3(0, 0, -1), value: 5 },  // Back
+] as const;
+
+// ============================================================================
+// READING THE DICE
+// ============================================================================
+export const getDiceValue = (quaternion: THREE.Quaternion): DiceReading => {
+  const up = new THREE.Vector3(0, 1, 0);
+  let maxDot = -Infinity;
+  let value = 1;
+
+  for (const face of DICE_FACES) {
+    const rotatedNormal = face.normal.clone().applyQuaternion(quaternion);
+    const dot = rotatedNormal.dot(up);
+    if (dot > maxDot) {
+      maxDot = dot;
+      value = face.value;
+    }
+  }
+
+  return { value, confidence: maxDot };
+};
+
+export const readDice = (body: CANNON.Body): DiceReading => (
+  getDiceValue(new THREE.Quaternion(body.quaternion.x, body.quaternion.y, body.quaternion.z, body.quaternion.w))
+);
+
+export const isDiceResting = (body: CANNON.Body): boolean => (
+  body.velocity.length() <= DICE_CONFIG.PHYSICS.SETTLE_THRESHOLD &&
+  body.angularVelocity.length() <= DICE_CONFIG.PHYSICS.SETTLE_THRESHOLD
+);
+
+// How far the die reaches from its centre along a world axis, as turned:
+// half its size when square to the axis, up to the half-diagonal at 45°
+const dieReach = (body: CANNON.Body, axis: CANNON.Vec3): number => {
+  const half = DICE_CONFIG.SIZE / 2;
+  const local = body.quaternion.conjugate().vmult(axis);
+  return half * (Math.abs(local.x) + Math.abs(local.y) + Math.abs(local.z));
+};
+
+const X_AXIS = new CANNON.Vec3(1, 0, 0);
+const Z_AXIS = new CANNON.Vec3(0, 0, 1);
+
+// True when the die rests tilted against a containment wall, held up by it
+// rather than lying on the floor
+export const isAgainstWall = (
+  body: CANNON.Body,
+  position: [number, number, number],
+  zoneSize: [number, number, number]
+): boolean => {
+  const { WALL_THICKNESS } = DICE_CONFIG.PHYSICS;
+  const gapX = zoneSize[0] / 2 - WALL_THICKNESS / 2 - Math.abs(body.position.x - position[0]) - dieReach(body, X_AXIS);
+  const gapZ = zoneSize[2] / 2 - WALL_THICKNESS / 2 - Math.abs(body.position.z - position[2]) - dieReach(body, Z_AXIS);
+  return Math.min(gapX, gapZ) < DICE_CONFIG.COCKED.WALL_CONTACT
+    && readDice(body).confidence < DICE_CONFIG.COCKED.FLAT_CONFIDENCE;
+};
+
+export const isCocked = (reading: DiceReading): boolean => (
+  reading.confidence < DICE_CONFIG.COCKED.MIN_CONFIDENCE
+);
+
+// ============================================================================
+// TABLE SETUP
+// ============================================================================
+// Bodies only; the caller adds them to a world
+export const createDiceBodies = (
+  position: [number, number, number],
+  count: DiceCount
+): DiceState[] => {
+  const diceShape = new CANNON.Box(new CANNON.Vec3(DICE_CONFIG.SIZE / 2, DICE_CONFIG.SIZE / 2, DICE_CONFIG.SIZE / 2));
+  const offsets = DICE_CONFIG.REST_OFFSETS[count];
+
+  return offsets.map(([x, z]) => ({
+    body: new CANNON.Body({
+      mass: 1,
+      position: new CANNON.Vec3(position[0] + x, position[1] + 0.5, position[2] + z),
+      shape: diceShape,
+      material: PHYSICS_MATERIALS.dice,
+    }),
+    mesh: null,
+    value: 1,
+  }));
+};
+
+// A private world laid out like the minigame1 room: floor at table height
+// and the same containment walls Room.tsx builds around the zone
+export const createDiceTable = (
+  position: [number, number, number],
+  zoneSize: [number, number, number],
+  count: DiceCount
+): DiceTable => {
+  const { WALL_HEIGHT, WALL_THICKNESS } = DICE_CONFIG.PHYSICS;
+
+  const world = new CANNON.World();
+  world.gravity.set(0, DICE_CONFIG.PHYSICS.GRAVITY, 0);
+  world.broadphase = new CANNON.NaiveBroadphase();
+
+  world.addContactMaterial(new CANNON.ContactMaterial(PHYSICS_MATERIALS.dice, PHYSICS_MATERIALS.ground, DICE_CONTACTS.ground));
+  world.addContactMaterial(new CANNON.ContactMaterial(PHYSICS_MATERIALS.dice, PHYSICS_MATERIALS.wall, DICE_CONTACTS.wall));
+
+  // Floor
+  world.addBody(new CANNON.Body({
+    mass: 0,
+    position: new CANNON.Vec3(position[0], position[1] - 0.5, position[2]),
+    shape: new CANNON.Box(new CANNON.Vec3(zoneSize[0] / 2, 0.5, zoneSize[2] / 2)),
+    material: PHYSICS_MATERIALS.ground,
+  }));
+
+  // Walls (containment): [x offset, z offset, half extent x, half extent z]
+  const walls: [number, number, number, number][] = [
+    [0, -zoneSize[2] / 2, zoneSize[0] / 2, WALL_THICKNESS / 2], // North
+    [0, zoneSize[2] / 2, zoneSize[0] / 2, WALL_THICKNESS / 2],  // South
+    [zoneSize[0] / 2, 0, WALL_THICKNESS / 2, zoneSize[2] / 2],  // East
+    [-zoneSize[0] / 2, 0, WALL_THICKNESS / 2, zoneSize[2] / 2], // West
+  ];
+  walls.forEach(([x, z, halfX, halfZ]) => {
+    world.addBody(new CANNON.Body({
+      mass: 0,
+      position: new CANNON.Vec3(position[0] + x, position[1] + WALL_HEIGHT / 2, position[2] + z),
+      shape: new CANNON.Box(new CANNON.Vec3(halfX, WALL_HEIGHT / 2, halfZ)),
+      material: PHYSICS_MATERIALS.wall,
+    }));
+  });
+
+  const dice = createDiceBodies(position, count);
+  dice.forEach(die => world.addBody(die.body));
+
+  return { world, dice };
+};
+
+// ============================================================================
+// THROWS
+// ============================================================================
+// Dropped from above the table with a random tumble
+export const applyRandomRoll = (
+  dice: DiceState[],
+  position: [number, number, number],
+  random: RngStream
+) => {
+  // Dice starting offsets (side by side, the third one staggered)
+  const offsets = DICE_CONFIG.ROLL_OFFSETS[dice.length as DiceCount];
+
+  // Apply physics to each dice
+  dice.forEach((die, i) => {
+    // Position above the table
+    die.body.position.set(position[0] + offsets[i][0], position[1] + 2.5, position[2] + offsets[i][1]);
+
+    // Random initial rotation
+    die.body.quaternion.setFromEuler(
+      random.range(0, Math.PI * 2),
+      random.range(0, Math.PI * 2),
+      random.range(0, Math.PI * 2)
+    );
+
+    // Apply initial velocity and spin
+    die.body.velocity.set(
+      random.range(-2.5, 2.5),
+      -5,
+      random.range(-2.5, 2.5)
+    );
+
+    die.body.angularVelocity.set(
+      random.range(-10, 10),
+      random.range(-10, 10),
+      random.range(-10, 10)
+    );
+  });
+};
+
+// Impulses come entirely from the gesture, so the same flick throws the
+// same way; only the physics of the landing decides the faces. `yaw` is the
+// thrower's facing: screen up points away from them, screen right to their right
+export const applyHandThrow = (
+  dice: DiceState[],
+  position: [number, number, number],
+  gesture: DiceThrow,
+  yaw: number
+) => {
+  const { THROW } = DICE_CONFIG;
+
+  const forward = new THREE.Vector3(-Math.sin(yaw), 0, -Math.cos(yaw));
+  const right = new THREE.Vector3(Math.cos(yaw), 0, -Math.sin(yaw));
+  const direction = forward.multiplyScalar(gesture.dirY).add(right.multiplyScalar(gesture.dirX)).normalize();
+  const side = new THREE.Vector3(-direction.z, 0, direction.x);
+
+  const speed = THROW.MIN_SPEED + gesture.strength * (THROW.MAX_SPEED - THROW.MIN_SPEED);
+  // Rolling forward along the throw: ω = up × direction
+  const topspin = new THREE.Vector3(0, 1, 0).cross(direction).multiplyScalar(gesture.strength * THROW.TOPSPIN);
+
+  dice.forEach((die, i) => {
+    const spread = (i - (dice.length - 1) / 2) * THROW.SPREAD;
+    die.body.position.set(
+      position[0] - direction.x * THROW.START_DISTANCE + side.x * spread,
+      position[1] + THROW.START_HEIGHT,
+      position[2] - direction.z * THROW.START_DISTANCE + side.z * spread,
+    );
+    die.body.quaternion.setFromEuler(0, yaw, 0);
+    die.body.velocity.set(direction.x * speed, THROW.LIFT, direction.z * speed);
+    die.body.angularVelocity.set(topspin.x, gesture.spin * THROW.SIDESPIN, topspin.z);
+  });
+};
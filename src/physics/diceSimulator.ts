@@ -0,0 +1,170 @@
+import type { DiceCount } from '../economy/diceBets';
+import { MINIGAME_ZONE_CONFIG } from '../config/rooms';
+import { createRngStream, getRngSeed } from '../utils/rng';
+import {
+  DICE_CONFIG,
+  applyRandomRoll,
+  createDiceTable,
+  isAgainstWall,
+  isCocked,
+  isDiceResting,
+  readDice,
+} from './dicePhysics';
+import { PHYSICS_STEP } from './physicsWorld';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export interface DiceSimulationOptions {
+  rolls: number;
+  count: DiceCount;
+  seed?: string; // defaults to the current RNG seed
+  position?: [number, number, number];
+  zoneSize?: [number, number, number];
+}
+
+// Why a roll would have been voided and re-rolled in the game
+export type DiceVoidReason = 'unsettled' | 'cocked' | 'wall';
+
+export interface DiceSimulationReport {
+  seed: string;
+  count: DiceCount;
+  rolls: number;
+  validRolls: number;
+  faceCounts: number[]; // index 0 = face 1, over every die of every valid roll
+  chiSquare: number;
+  pValue: number;
+  fair: boolean;
+  voids: Record<DiceVoidReason, number>;
+  ambiguousRate: number; // share of rolls the game would void
+  settleTime: { p50: number; p90: number; p99: number; max: number }; // seconds
+  elapsedMs: number;
+}
+
+// ============================================================================
+// SIMULATION CONSTANTS
+// ============================================================================
+const SIMULATION = {
+  BATCH_SIZE: 250,        // rolls between yields, so a browser tab stays responsive
+  SIGNIFICANCE: 0.05,     // the dice fail when p falls below this
+} as const;
+
+const MAX_STEPS = Math.ceil(DICE_CONFIG.TIMING.MAX_ROLL_TIME / PHYSICS_STEP.TIME_STEP);
+
+// ============================================================================
+// STATISTICS
+// ============================================================================
+// Abramowitz & Stegun 7.1.26, accurate to ~1e-7
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return poly * Math.exp(-x * x);
+}
+
+// Upper tail of the chi-square distribution with 5 degrees of freedom
+// (six faces), in closed form
+function chiSquarePValue(chiSquare: number): number {
+  const x = chiSquare;
+  return Math.min(1, erfc(Math.sqrt(x / 2)) + Math.sqrt((2 * x) / Math.PI) * Math.exp(-x / 2) * (1 + x / 3));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+// Rolls the physics dice with no rendering attached: same table, same throw
+// and the same settle and void rules as DiceGame, stepped as fast as possible
+export async function runDiceSimulation(
+  { rolls, count, seed = getRngSeed(), position = MINIGAME_ZONE_CONFIG.minigame1.position, zoneSize = MINIGAME_ZONE_CONFIG.minigame1.size }: DiceSimulationOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<DiceSimulationReport> {
+  const startedAt = performance.now();
+  const table = createDiceTable(position, zoneSize, count);
+  // A private stream, so simulating never advances the game's own dice
+  const random = createRngStream(seed, 'dice');
+
+  const faceCounts = [0, 0, 0, 0, 0, 0];
+  const voids: Record<DiceVoidReason, number> = { unsettled: 0, cocked: 0, wall: 0 };
+  const settleTimes: number[] = [];
+
+  for (let roll = 0; roll < rolls; roll++) {
+    applyRandomRoll(table.dice, position, random);
+
+    let steps = 0;
+    let settled = false;
+    while (!settled && steps < MAX_STEPS) {
+      table.world.step(PHYSICS_STEP.TIME_STEP);
+      steps++;
+      settled = table.dice.every(die => isDiceResting(die.body));
+    }
+
+    const readings = table.dice.map(die => readDice(die.body));
+    if (!settled) {
+      voids.unsettled++;
+    } else if (readings.some(isCocked)) {
+      voids.cocked++;
+    } else if (table.dice.some(die => isAgainstWall(die.body, position, zoneSize))) {
+      voids.wall++;
+    } else {
+      readings.forEach(reading => faceCounts[reading.value - 1]++);
+      settleTimes.push(steps * PHYSICS_STEP.TIME_STEP);
+    }
+
+    if ((roll + 1) % SIMULATION.BATCH_SIZE === 0) {
+      onProgress?.(roll + 1, rolls);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  const faces = faceCounts.reduce((a, b) => a + b, 0);
+  const expected = faces / 6;
+  const chiSquare = expected > 0
+    ? faceCounts.reduce((sum, observed) => sum + (observed - expected) ** 2 / expected, 0)
+    : 0;
+  const pValue = expected > 0 ? chiSquarePValue(chiSquare) : 1;
+  const voidCount = voids.unsettled + voids.cocked + voids.wall;
+
+  settleTimes.sort((a, b) => a - b);
+
+  return {
+    seed,
+    count,
+    rolls,
+    validRolls: rolls - voidCount,
+    faceCounts,
+    chiSquare,
+    pValue,
+    fair: pValue >= SIMULATION.SIGNIFICANCE,
+    voids,
+    ambiguousRate: rolls > 0 ? voidCount / rolls : 0,
+    settleTime: {
+      p50: percentile(settleTimes, 0.5),
+      p90: percentile(settleTimes, 0.9),
+      p99: percentile(settleTimes, 0.99),
+      max: settleTimes[settleTimes.length - 1] ?? 0,
+    },
+    elapsedMs: performance.now() - startedAt,
+  };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+export function formatDiceReport(report: DiceSimulationReport): string {
+  const faces = report.faceCounts.reduce((a, b) => a + b, 0);
+  const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+  return [
+    `Dice fairness: ${report.rolls} rolls of ${report.count} dice (seed "${report.seed}")`,
+    'Face distribution (valid rolls):',
+    ...report.faceCounts.map((n, i) => `  ${i + 1}: ${n} (${percent(faces > 0 ? n / faces : 0)}, expected 16.67%)`),
+    `Chi-square: ${report.chiSquare.toFixed(3)} (df 5), p = ${report.pValue.toFixed(4)} → ${report.fair ? 'fair' : 'NOT fair'} at ${SIMULATION.SIGNIFICANCE}`,
+    `Ambiguous rolls: ${percent(report.ambiguousRate)} (unsettled ${report.voids.unsettled}, cocked ${report.voids.cocked}, on a wall ${report.voids.wall})`,
+    `Settle time: p50 ${report.settleTime.p50.toFixed(2)}s, p90 ${report.settleTime.p90.toFixed(2)}s, p99 ${report.settleTime.p99.toFixed(2)}s, max ${report.settleTime.max.toFixed(2)}s`,
+    `Simulated in ${(report.elapsedMs / 1000).toFixed(1)}s`,
+  ].join('\n');
+}
@@ -0,0 +1,102 @@
+import * as CANNON from 'cannon-es';
+import { PHYSICS_CONFIG } from '../config/rooms';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export type PhysicsMaterialName = 'ground' | 'wall' | 'player' | 'dice' | 'ball';
+
+export interface PhysicsBodyOptions {
+  // Per-body gravity, for games tuned to a different pull than the player
+  gravity?: number;
+}
+
+// Undoes a registration; safe to call more than once
+export type PhysicsRelease = () => void;
+
+// ============================================================================
+// SHARED WORLD
+// ============================================================================
+// One world for the player, the room and every minigame, so a thrown ball
+// or a rolled die collides with the same walls and bodies the player does
+const world = new CANNON.World();
+world.gravity.set(0, PHYSICS_CONFIG.gravity, 0);
+world.broadphase = new CANNON.NaiveBroadphase();
+
+// Materials are shared so contact pairs can be registered from anywhere
+export const PHYSICS_MATERIALS: Record<PhysicsMaterialName, CANNON.Material> = {
+  ground: new CANNON.Material('ground'),
+  wall: new CANNON.Material('wall'),
+  player: new CANNON.Material('player'),
+  dice: new CANNON.Material('dice'),
+  ball: new CANNON.Material('ball'),
+};
+
+export const PHYSICS_STEP = {
+  TIME_STEP: 1 / 60,
+  MAX_SUB_STEPS: 3,
+} as const;
+
+const bodyGravity = new Map<CANNON.Body, number>();
+
+// Runs after the solver and before integration, so the extra force lands in
+// this step's velocity update just like world gravity does
+world.addEventListener('preStep', () => {
+  bodyGravity.forEach((gravity, body) => {
+    body.force.y += body.mass * (gravity - world.gravity.y);
+  });
+});
+
+export function getPhysicsWorld() {
+  return world;
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+export function addPhysicsBody(body: CANNON.Body, options: PhysicsBodyOptions = {}): PhysicsRelease {
+  world.addBody(body);
+  if (options.gravity !== undefined) bodyGravity.set(body, options.gravity);
+
+  return () => {
+    world.removeBody(body);
+    bodyGravity.delete(body);
+  };
+}
+
+export function addPhysicsBodies(bodies: CANNON.Body[], options: PhysicsBodyOptions = {}): PhysicsRelease {
+  const releases = bodies.map(body => addPhysicsBody(body, options));
+  return () => releases.forEach(release => release());
+}
+
+export function addContactMaterial(
+  a: PhysicsMaterialName,
+  b: PhysicsMaterialName,
+  options: CANNON.ContactMaterialOptions
+): PhysicsRelease {
+  const contact = new CANNON.ContactMaterial(PHYSICS_MATERIALS[a], PHYSICS_MATERIALS[b], options);
+  world.addContactMaterial(contact);
+  return () => world.removeContactMaterial(contact);
+}
+
+// Fires when two bodies start or stop touching, trigger volumes included
+export function onPhysicsContact(
+  listener: (phase: 'begin' | 'end', bodyA: CANNON.Body, bodyB: CANNON.Body) => void
+): PhysicsRelease {
+  const onBegin = (event: { bodyA: CANNON.Body; bodyB: CANNON.Body }) => listener('begin', event.bodyA, event.bodyB);
+  const onEnd = (event: { bodyA: CANNON.Body; bodyB: CANNON.Body }) => listener('end', event.bodyA, event.bodyB);
+  world.addEventListener('beginContact', onBegin);
+  world.addEventListener('endContact', onEnd);
+  return () => {
+    world.removeEventListener('beginContact', onBegin);
+    world.removeEventListener('endContact', onEnd);
+  };
+}
+
+// ============================================================================
+// FIXED-STEP SCHEDULER
+// ============================================================================
+// The only place the world advances; called once per frame (see usePhysics)
+export function stepPhysics(delta: number) {
+  world.step(PHYSICS_STEP.TIME_STEP, delta, PHYSICS_STEP.MAX_SUB_STEPS);
+}
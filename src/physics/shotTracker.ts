@@ -0,0 +1,93 @@
+import type * as CANNON from 'cannon-es';
+import type { BasketballShotKind } from '../types';
+import { onPhysicsContact } from './physicsWorld';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// The hoop as the tracker sees it: solid parts the ball can touch, and two
+// trigger volumes stacked inside the ring, one above the rim and one below
+export interface HoopBodies {
+  backboard: CANNON.Body;
+  rim: CANNON.Body[];
+  upperSensor: CANNON.Body;
+  lowerSensor: CANNON.Body;
+}
+
+export type ShotEvent =
+  | { type: 'touch'; part: 'rim' | 'backboard' }
+  | { type: 'make'; kind: BasketballShotKind };
+
+export interface ShotTracker {
+  startShot: () => void; // call on release; earlier contacts are ignored
+  onShot: (listener: (event: ShotEvent) => void) => () => void;
+  dispose: () => void;
+}
+
+// ============================================================================
+// SHOT TRACKER
+// ============================================================================
+// A basket needs the ball to pass down through the upper sensor and into
+// the lower one, so a fast shot cannot slip between frame samples and a ball
+// bouncing up through the ring never counts
+export function createShotTracker(ball: CANNON.Body, hoop: HoopBodies): ShotTracker {
+  const listeners = new Set<(event: ShotEvent) => void>();
+  let inFlight = false;
+  let armed = false; // entered the upper sensor from above
+  let inLower = false;
+  let touchedRim = false;
+  let touchedBackboard = false;
+
+  const emit = (event: ShotEvent) => listeners.forEach(listener => listener(event));
+
+  const score = () => {
+    inFlight = false;
+    armed = false;
+    emit({ type: 'make', kind: touchedBackboard ? 'bank' : touchedRim ? 'rimIn' : 'swish' });
+  };
+
+  // A fast ball can leave the upper sensor and reach the lower one in the
+  // same step, and the world reports those in either order, so both paths
+  // can complete the basket
+  const release = onPhysicsContact((phase, bodyA, bodyB) => {
+    if (!inFlight || (bodyA !== ball && bodyB !== ball)) return;
+    const other = bodyA === ball ? bodyB : bodyA;
+    const falling = ball.velocity.y < 0;
+
+    if (other === hoop.upperSensor) {
+      // Only entering from above arms; a ball that came up through the ring
+      // is already falling again when it leaves, so leaving never arms
+      if (phase === 'begin') armed = falling;
+      else if (!falling) armed = false;
+      else if (armed && inLower) score();
+    } else if (other === hoop.lowerSensor) {
+      inLower = phase === 'begin';
+      if (inLower && !falling) armed = false;
+      if (inLower && armed && falling) score();
+    } else if (phase === 'begin' && other === hoop.backboard) {
+      touchedBackboard = true;
+      emit({ type: 'touch', part: 'backboard' });
+    } else if (phase === 'begin' && hoop.rim.includes(other)) {
+      touchedRim = true;
+      emit({ type: 'touch', part: 'rim' });
+    }
+  });
+
+  return {
+    startShot: () => {
+      inFlight = true;
+      armed = false;
+      inLower = false;
+      touchedRim = false;
+      touchedBackboard = false;
+    },
+    onShot: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispose: () => {
+      release();
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { SaveFormatError, SaveVersionError } from './saveSchema';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export type SaveErrorCode =
+  | 'quotaExceeded'  // storage is full, nothing was written
+  | 'corrupt'        // payload is unreadable and has been quarantined
+  | 'schemaMismatch' // payload comes from a newer build
+  | 'missingSlot'    // slot exists but its payload does not
+  | 'unknown';
+
+export interface SaveFailure {
+  ok: false;
+  error: SaveErrorCode;
+  message: string;
+}
+
+// Store save actions return this instead of throwing or returning null
+export type SaveResult<T> = { ok: true; value: T } | SaveFailure;
+
+// Shown to the player until dismissed or acted on
+export interface SaveNotice {
+  error: SaveErrorCode;
+  saveName?: string;
+  pruneSuggestions: string[]; // slot ids that could be deleted to free space
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+export function saveOk<T>(value: T): SaveResult<T> {
+  return { ok: true, value };
+}
+
+export function saveFailure(error: SaveErrorCode, message: string): SaveFailure {
+  return { ok: false, error, message };
+}
+
+// Browsers disagree on how a full storage is reported
+export function isQuotaExceededError(error: unknown) {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError'
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || error.code === 22
+    || error.code === 1014;
+}
+
+export function classifySaveError(error: unknown): SaveErrorCode {
+  if (isQuotaExceededError(error)) return 'quotaExceeded';
+  if (error instanceof SaveVersionError) return 'schemaMismatch';
+  if (error instanceof SaveFormatError) return 'corrupt';
+  return 'unknown';
+}
+
+export function toSaveFailure(error: unknown): SaveFailure {
+  return saveFailure(classifySaveError(error), error instanceof Error ? error.message : String(error));
+}
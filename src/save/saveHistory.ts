@@ -0,0 +1,57 @@
+import type { SaveData } from '../types';
+import { HISTORY_KEY, type SaveStorage } from './saveStorage';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// What happened right before the snapshot was taken
+export type HistoryEvent =
+  | 'started'
+  | 'roomChanged'
+  | 'betResolved'
+  | 'rewardCollected'
+  | 'loaded'
+  | 'rewound';
+
+// Progress only: no pose, so entries stay small and rewinds land on a spawn
+export type HistorySnapshot = Pick<
+  SaveData,
+  'currentRoom' | 'money' | 'inventory' | 'playedMinigames' | 'spawnedBoxes' | 'collectedBoxes' | 'playtime'
+>;
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  event: HistoryEvent;
+  detail?: string; // room or minigame the event happened in
+  snapshot: HistorySnapshot;
+}
+
+// ============================================================================
+// ROLLING HISTORY
+// ============================================================================
+// Oldest entries fall off once the limit is reached
+export const HISTORY_LIMIT = 50;
+
+export function appendHistory(history: HistoryEntry[], entry: HistoryEntry) {
+  return [...history, entry].slice(-HISTORY_LIMIT);
+}
+
+export function readHistory(storage: SaveStorage): HistoryEntry[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(HISTORY_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read save history:', error);
+    return [];
+  }
+}
+
+// History is a convenience; running out of space must never block play
+export function writeHistory(storage: SaveStorage, history: HistoryEntry[]) {
+  try {
+    storage.setItem(HISTORY_KEY, JSON.stringify(history));
+  } catch (error) {
+    console.error('Failed to write save history:', error);
+  }
+}
@@ -0,0 +1,75 @@
+import type { SaveMode, SaveSlot } from '../types';
+import { SAVE_KEY_PREFIX, THUMBNAIL_KEY_PREFIX, saveKey, thumbnailKey, type SaveStorage } from './saveStorage';
+
+// ============================================================================
+// RETENTION POLICY
+// ============================================================================
+// Maximum slots kept per save mode. Auto and quick saves rotate (oldest out);
+// manual saves are never evicted and are only limited by storage quota.
+export const SAVE_RETENTION: Record<SaveMode, number> = {
+  auto: 5,
+  quick: 3,
+  manual: Infinity,
+};
+
+// Slots persisted before modes were tracked only carry the mode in their id
+export function inferSaveMode(saveId: string): SaveMode {
+  if (saveId.startsWith('auto_')) return 'auto';
+  if (saveId.startsWith('quick_')) return 'quick';
+  return 'manual';
+}
+
+// ============================================================================
+// EVICTION
+// ============================================================================
+export function applyRetention(slots: SaveSlot[]) {
+  const counts: Record<SaveMode, number> = { auto: 0, quick: 0, manual: 0 };
+  const kept: SaveSlot[] = [];
+  const evicted: SaveSlot[] = [];
+
+  [...slots]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .forEach(slot => {
+      counts[slot.mode]++;
+      if (slot.mode !== 'manual' && counts[slot.mode] > SAVE_RETENTION[slot.mode]) {
+        evicted.push(slot);
+      } else {
+        kept.push(slot);
+      }
+    });
+
+  return { kept, evicted };
+}
+
+// ============================================================================
+// ORPHAN CLEANUP
+// ============================================================================
+// Save payloads and thumbnails that no slot points at (left behind by the
+// old 20-slot cap, crashed writes or other tabs)
+export function findOrphanSaveKeys(storage: SaveStorage, slots: SaveSlot[]) {
+  const referenced = new Set(slots.flatMap(slot => [saveKey(slot.id), thumbnailKey(slot.id)]));
+  return storage.keys().filter(key =>
+    (key.startsWith(SAVE_KEY_PREFIX) || key.startsWith(THUMBNAIL_KEY_PREFIX)) && !referenced.has(key)
+  );
+}
+
+// ============================================================================
+// PRUNING SUGGESTIONS
+// ============================================================================
+// When storage is full, offer the rotating saves that are not the newest of
+// their mode, oldest first. Manual saves and the active save are never offered.
+export function suggestPrune(slots: SaveSlot[], currentSaveId: string | null) {
+  const newest = new Set<SaveMode>();
+  return [...slots]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(slot => {
+      if (slot.mode === 'manual' || slot.id === currentSaveId) return false;
+      if (!newest.has(slot.mode)) {
+        newest.add(slot.mode);
+        return false;
+      }
+      return true;
+    })
+    .reverse()
+    .map(slot => slot.id);
+}
@@ -0,0 +1,200 @@
+import type { SaveData, SaveEnvelope } from '../types';
+import { openingLedger } from '../economy/ledger';
+import { BASKETBALL_MODES, emptyBasketballBests } from '../economy/basketballModes';
+
+// ============================================================================
+// SCHEMA VERSION
+// ============================================================================
+// Saves written before versioning existed are treated as version 0.
+export const SAVE_SCHEMA_VERSION = 5;
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+export class SaveVersionError extends Error {
+  readonly version: number;
+
+  constructor(version: number) {
+    super(
+      `Save was written by a newer version of the game (schema v${version}, ` +
+      `this build supports up to v${SAVE_SCHEMA_VERSION})`
+    );
+    this.name = 'SaveVersionError';
+    this.version = version;
+  }
+}
+
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveFormatError';
+  }
+}
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+type RawSave = Record<string, unknown>;
+
+// Each entry upgrades a payload from version N to N + 1.
+const MIGRATIONS: Record<number, (data: RawSave) => RawSave> = {
+  // v0 -> v1: legacy unversioned saves, fill fields that may be missing
+  0: (data) => ({
+    ...data,
+    lastAutoSave: typeof data.lastAutoSave === 'number' ? data.lastAutoSave : 0,
+  }),
+  // v1 -> v2: full-world snapshots (progression + look direction)
+  1: (data) => ({
+    ...data,
+    look: { yaw: 0, pitch: 0 },
+    inventory: [],
+    playedMinigames: { minigame1: false, minigame2: false, minigame3: false },
+    spawnedBoxes: { minigame1: false, minigame2: false, minigame3: false },
+    collectedBoxes: { minigame1: false, minigame2: false, minigame3: false },
+  }),
+  // v2 -> v3: playtime tracking
+  2: (data) => ({
+    ...data,
+    playtime: 0,
+  }),
+  // v3 -> v4: money ledger, seeded with the balance the save already had
+  3: (data) => ({
+    ...data,
+    ledger: typeof data.money === 'number' && typeof data.timestamp === 'number'
+      ? openingLedger(data.money, data.timestamp)
+      : [],
+  }),
+  // v4 -> v5: per-mode basketball best scores
+  4: (data) => ({
+    ...data,
+    basketballBests: emptyBasketballBests(),
+  }),
+};
+
+function isRecord(value: unknown): value is RawSave {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+const ROOM_IDS = ['main', 'minigame1', 'minigame2', 'minigame3', 'minigame4'];
+const LOBBY_MINIGAME_IDS = ['minigame1', 'minigame2', 'minigame3'];
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isFlagMap(value: unknown): boolean {
+  return isRecord(value) && LOBBY_MINIGAME_IDS.every(id => typeof value[id] === 'boolean');
+}
+
+function isBestsMap(value: unknown): boolean {
+  return isRecord(value) && BASKETBALL_MODES.every(mode => isFiniteNumber(value[mode]) && value[mode] >= 0);
+}
+
+function isLedgerEntry(value: unknown): boolean {
+  return isRecord(value)
+    && typeof value.id === 'string'
+    && isFiniteNumber(value.timestamp)
+    && isFiniteNumber(value.amount)
+    && isFiniteNumber(value.balance)
+    && typeof value.source === 'string'
+    && typeof value.reason === 'string';
+}
+
+// Checks a fully migrated payload against the current SaveData shape
+export function validateSaveData(data: unknown): SaveData {
+  const fail = (field: string) => {
+    throw new SaveFormatError(`Save field "${field}" is missing or invalid`);
+  };
+
+  if (!isRecord(data)) throw new SaveFormatError('Save payload is not an object');
+  if (typeof data.id !== 'string' || !data.id) fail('id');
+  if (typeof data.name !== 'string') fail('name');
+  if (!isFiniteNumber(data.timestamp)) fail('timestamp');
+  if (!ROOM_IDS.includes(data.currentRoom as string)) fail('currentRoom');
+  if (!isFiniteNumber(data.money)) fail('money');
+  if (!isFiniteNumber(data.lastAutoSave)) fail('lastAutoSave');
+  if (!isFiniteNumber(data.playtime) || data.playtime < 0) fail('playtime');
+
+  const position = data.position;
+  if (!isRecord(position) || !['x', 'y', 'z'].every(k => isFiniteNumber(position[k]))) {
+    fail('position');
+  }
+
+  const look = data.look;
+  if (!isRecord(look) || !isFiniteNumber(look.yaw) || !isFiniteNumber(look.pitch)) {
+    fail('look');
+  }
+
+  const inventory = data.inventory;
+  if (
+    !Array.isArray(inventory) ||
+    !inventory.every(item =>
+      isRecord(item) &&
+      typeof item.id === 'string' &&
+      typeof item.color === 'string' &&
+      [...LOBBY_MINIGAME_IDS, 'minigame4'].includes(item.minigameId as string)
+    )
+  ) {
+    fail('inventory');
+  }
+
+  if (!isFlagMap(data.playedMinigames)) fail('playedMinigames');
+  if (!isFlagMap(data.spawnedBoxes)) fail('spawnedBoxes');
+  if (!isFlagMap(data.collectedBoxes)) fail('collectedBoxes');
+  if (!Array.isArray(data.ledger) || !data.ledger.every(isLedgerEntry)) fail('ledger');
+  if (!isBestsMap(data.basketballBests)) fail('basketballBests');
+
+  return data as unknown as SaveData;
+}
+
+// ============================================================================
+// ENVELOPE HELPERS
+// ============================================================================
+export function createSaveEnvelope(data: SaveData): SaveEnvelope {
+  return {
+    version: SAVE_SCHEMA_VERSION,
+    data,
+  };
+}
+
+export function migrateSave(payload: unknown): SaveData {
+  if (!isRecord(payload)) {
+    throw new SaveFormatError('Save payload is not an object');
+  }
+
+  // Legacy saves are the bare SaveData object without an envelope
+  const isEnvelope = typeof payload.version === 'number' && isRecord(payload.data);
+  let version = isEnvelope ? (payload.version as number) : 0;
+  let data = isEnvelope ? (payload.data as RawSave) : payload;
+
+  if (!Number.isInteger(version) || version < 0) {
+    throw new SaveFormatError(`Invalid save version: ${version}`);
+  }
+  if (version > SAVE_SCHEMA_VERSION) {
+    throw new SaveVersionError(version);
+  }
+
+  while (version < SAVE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new SaveFormatError(`No migration from save version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  return validateSaveData(data);
+}
+
+export function parseSave(raw: string): SaveData {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    throw new SaveFormatError('Save is not valid JSON');
+  }
+  return migrateSave(payload);
+}
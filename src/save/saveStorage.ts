@@ -0,0 +1,324 @@
+// ============================================================================
+// STORAGE KEYS
+// ============================================================================
+export const SAVE_KEY_PREFIX = 'mini3d_save_';
+export const QUARANTINE_KEY_PREFIX = 'mini3d_quarantine_';
+export const THUMBNAIL_KEY_PREFIX = 'mini3d_thumb_';
+export const LAST_QUICKSAVE_KEY = 'mini3d_last_quicksave';
+export const SETTINGS_KEY = 'mini3d-game-settings';
+export const HISTORY_KEY = 'mini3d_history';
+export const PROFILES_KEY = 'mini3d-profiles';
+export const PROFILE_KEY_PREFIX = 'mini3d_profile_';
+
+export const saveKey = (saveId: string) => `${SAVE_KEY_PREFIX}${saveId}`;
+export const quarantineKey = (saveId: string) => `${QUARANTINE_KEY_PREFIX}${saveId}`;
+export const thumbnailKey = (saveId: string) => `${THUMBNAIL_KEY_PREFIX}${saveId}`;
+
+// Keys that belong to one player profile (everything the game store writes)
+export const isProfileDataKey = (key: string) =>
+  key.startsWith(SAVE_KEY_PREFIX)
+  || key.startsWith(QUARANTINE_KEY_PREFIX)
+  || key.startsWith(THUMBNAIL_KEY_PREFIX)
+  || key === LAST_QUICKSAVE_KEY
+  || key === SETTINGS_KEY
+  || key === HISTORY_KEY;
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+export type SaveStorageKind = 'localStorage' | 'indexedDB' | 'memory';
+
+// Called with the key another tab wrote or removed
+export type StorageChangeListener = (key: string) => void;
+
+// Reads and writes are synchronous so store actions can stay synchronous.
+// Async backends load everything into memory in init() and write through.
+export interface SaveStorage {
+  readonly kind: SaveStorageKind;
+  init: () => Promise<void>;
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+  subscribe: (listener: StorageChangeListener) => () => void;
+}
+
+// ============================================================================
+// WRITE ERRORS
+// ============================================================================
+// Synchronous backends throw from setItem; async ones can only fail later, so
+// they report here instead (e.g. IndexedDB running out of quota), with the
+// key as the active profile sees it (null if another profile's write failed).
+export type StorageErrorHandler = (error: unknown, key: string | null) => void;
+
+let writeErrorHandler: StorageErrorHandler | null = null;
+
+export function setStorageErrorHandler(handler: StorageErrorHandler | null) {
+  writeErrorHandler = handler;
+}
+
+function reportWriteError(error: unknown, rootKey: string) {
+  writeErrorHandler?.(error, toScopedKey(rootKey));
+}
+
+// ============================================================================
+// IN-MEMORY BACKEND
+// ============================================================================
+export function createMemoryStorage(initial: Record<string, string> = {}): SaveStorage {
+  const entries = new Map(Object.entries(initial));
+
+  return {
+    kind: 'memory',
+    init: async () => {},
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+    keys: () => [...entries.keys()],
+    // Memory storage is private to this tab
+    subscribe: () => () => {},
+  };
+}
+
+// ============================================================================
+// LOCALSTORAGE BACKEND
+// ============================================================================
+export function createLocalStorage(): SaveStorage {
+  return {
+    kind: 'localStorage',
+    init: async () => {},
+    getItem: (key) => localStorage.getItem(key),
+    setItem: (key, value) => localStorage.setItem(key, value),
+    removeItem: (key) => localStorage.removeItem(key),
+    keys: () => {
+      const result: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key !== null) result.push(key);
+      }
+      return result;
+    },
+    subscribe: (listener) => {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.storageArea === localStorage && e.key !== null) listener(e.key);
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+  };
+}
+
+// ============================================================================
+// INDEXEDDB BACKEND
+// ============================================================================
+const IDB_NAME = 'mini3d';
+const IDB_STORE = 'saves';
+const IDB_CHANNEL = 'mini3d-idb';
+
+// Other tabs keep their own cache, so every write is mirrored to them
+interface CacheUpdate {
+  key: string;
+  value: string | null;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(IDB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(IDB_STORE);
+  };
+  return requestToPromise(request);
+}
+
+export function createIndexedDBStorage(): SaveStorage {
+  const cache = new Map<string, string>();
+  const listeners = new Set<StorageChangeListener>();
+  let db: IDBDatabase | null = null;
+  let channel: BroadcastChannel | null = null;
+
+  const broadcast = (update: CacheUpdate) => channel?.postMessage(update);
+
+  // Writes are fire-and-forget; the in-memory cache is the source of truth
+  // for the running session. A write that fails later (quota errors abort the
+  // whole transaction) rolls the cache back so it never holds data the
+  // database lost, then reports the key so the store can undo what it indexed.
+  const write = (key: string, value: string | null) => {
+    const previous = cache.get(key) ?? null;
+    if (value === null) cache.delete(key);
+    else cache.set(key, value);
+    if (!db) return;
+
+    const transaction = db.transaction(IDB_STORE, 'readwrite');
+    const store = transaction.objectStore(IDB_STORE);
+    if (value === null) store.delete(key);
+    else store.put(value, key);
+
+    transaction.onabort = () => {
+      console.error('IndexedDB write failed:', transaction.error);
+      // A newer write to the same key has its own transaction to report on
+      if ((cache.get(key) ?? null) === value) {
+        if (previous === null) cache.delete(key);
+        else cache.set(key, previous);
+        broadcast({ key, value: previous });
+      }
+      reportWriteError(transaction.error, key);
+    };
+  };
+
+  return {
+    kind: 'indexedDB',
+    init: async () => {
+      db = await openDatabase();
+
+      if (typeof BroadcastChannel !== 'undefined') {
+        channel = new BroadcastChannel(IDB_CHANNEL);
+        channel.onmessage = (e: MessageEvent<CacheUpdate>) => {
+          const { key, value } = e.data;
+          if (value === null) cache.delete(key);
+          else cache.set(key, value);
+          listeners.forEach(listener => listener(key));
+        };
+      }
+
+      const store = db.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys()),
+        requestToPromise(store.getAll()),
+      ]);
+      keys.forEach((key, index) => cache.set(String(key), values[index] as string));
+
+      // First run on this backend: bring over saves written by localStorage builds
+      if (cache.size === 0) {
+        for (let i = 0; i < localStorage.length; i++) {
+          const key = localStorage.key(i);
+          if (!key || !(isProfileDataKey(key) || key.startsWith(PROFILE_KEY_PREFIX) || key === PROFILES_KEY)) {
+            continue;
+          }
+          const value = localStorage.getItem(key);
+          if (value === null) continue;
+          write(key, value);
+        }
+      }
+    },
+    getItem: (key) => cache.get(key) ?? null,
+    // Unchanged writes are dropped: every broadcast makes the other tabs
+    // reconcile, and persist rewrites the settings key on every store update
+    setItem: (key, value) => {
+      if (cache.get(key) === value) return;
+      write(key, value);
+      broadcast({ key, value });
+    },
+    removeItem: (key) => {
+      if (!cache.has(key)) return;
+      write(key, null);
+      broadcast({ key, value: null });
+    },
+    keys: () => [...cache.keys()],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// ============================================================================
+// ACTIVE BACKEND
+// ============================================================================
+let activeStorage: SaveStorage = createMemoryStorage();
+
+// Backend as a whole, shared by every profile (holds the profile registry)
+export function getRootStorage(): SaveStorage {
+  return activeStorage;
+}
+
+export function setSaveStorage(storage: SaveStorage) {
+  activeStorage = storage;
+}
+
+// ============================================================================
+// PROFILE SCOPE
+// ============================================================================
+// Each profile sees its own copy of the save keys. The default profile uses
+// the unprefixed keys so saves from before profiles existed stay where they
+// are; other profiles live under `mini3d_profile_<id>:`.
+let profileScope: string | null = null;
+
+const scopePrefix = (scope: string | null) => (scope ? `${PROFILE_KEY_PREFIX}${scope}:` : '');
+
+// Maps a root key to the active profile's view of it, or null if out of scope
+function toScopedKey(rootKey: string) {
+  const prefix = scopePrefix(profileScope);
+  if (prefix) return rootKey.startsWith(prefix) ? rootKey.slice(prefix.length) : null;
+  return rootKey.startsWith(PROFILE_KEY_PREFIX) ? null : rootKey;
+}
+
+export function setProfileScope(scope: string | null) {
+  profileScope = scope;
+}
+
+// Deletes everything a profile stored, regardless of which profile is active
+export function removeProfileData(scope: string | null) {
+  const prefix = scopePrefix(scope);
+  const keys = activeStorage.keys().filter(key => (
+    prefix
+      ? key.startsWith(prefix)
+      : !key.startsWith(PROFILE_KEY_PREFIX) && isProfileDataKey(key)
+  ));
+  keys.forEach(key => activeStorage.removeItem(key));
+  return keys.length;
+}
+
+const profileStorage: SaveStorage = {
+  get kind() {
+    return activeStorage.kind;
+  },
+  init: () => activeStorage.init(),
+  getItem: (key) => activeStorage.getItem(scopePrefix(profileScope) + key),
+  setItem: (key, value) => activeStorage.setItem(scopePrefix(profileScope) + key, value),
+  removeItem: (key) => activeStorage.removeItem(scopePrefix(profileScope) + key),
+  keys: () => activeStorage.keys().flatMap(key => toScopedKey(key) ?? []),
+  subscribe: (listener) => activeStorage.subscribe((key) => {
+    const scopedKey = toScopedKey(key);
+    if (scopedKey !== null) listener(scopedKey);
+  }),
+};
+
+// Storage as seen by the active profile; all save code goes through this
+export function getSaveStorage(): SaveStorage {
+  return profileStorage;
+}
+
+function pickDefaultStorage(): SaveStorage {
+  // ?storage=memory|localStorage|indexedDB overrides detection (handy for testing)
+  const requested = new URLSearchParams(window.location.search).get('storage');
+  if (requested === 'memory') return createMemoryStorage();
+  if (requested === 'localStorage') return createLocalStorage();
+
+  if (typeof indexedDB !== 'undefined') return createIndexedDBStorage();
+  if (typeof localStorage !== 'undefined') return createLocalStorage();
+  return createMemoryStorage();
+}
+
+// Called once at startup, before the game store is hydrated
+export async function initSaveStorage(storage: SaveStorage = pickDefaultStorage()) {
+  try {
+    await storage.init();
+    activeStorage = storage;
+  } catch (error) {
+    console.error(`Failed to open ${storage.kind} save storage, falling back:`, error);
+    const fallback = storage.kind === 'localStorage' ? createMemoryStorage() : createLocalStorage();
+    await fallback.init();
+    activeStorage = fallback;
+  }
+  console.log(`Save storage: ${activeStorage.kind}`);
+  return activeStorage;
+}
@@ -0,0 +1,114 @@
+// ============================================================================
+// TAB PRESENCE
+// ============================================================================
+// Open tabs announce themselves and the save they are playing on a shared
+// BroadcastChannel, so a tab can tell when another session is running and
+// whether it is writing to the same save.
+const PRESENCE_CHANNEL = 'mini3d-tabs';
+const HEARTBEAT_INTERVAL = 5000; // ms
+const PEER_TIMEOUT = 15000; // ms, tabs that crash never say goodbye
+export const PEER_DISCOVERY_WINDOW = 500; // ms to wait for replies to 'hello'
+
+// Deliberately not drawn from the seedable 'ids' stream: tabs sharing a seed
+// would get the same ID and mistake each other for themselves
+const TAB_ID = crypto.randomUUID();
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+type PresenceMessage =
+  | { type: 'hello'; tabId: string; saveId: string | null }
+  | { type: 'claim'; tabId: string; saveId: string | null }
+  | { type: 'bye'; tabId: string };
+
+export interface TabPresence {
+  otherTabs: number;
+  // Active save of this tab that another tab is also playing
+  conflictSaveId: string | null;
+}
+
+interface Peer {
+  saveId: string | null;
+  lastSeen: number;
+}
+
+// ============================================================================
+// PRESENCE TRACKING
+// ============================================================================
+const peers = new Map<string, Peer>();
+let channel: BroadcastChannel | null = null;
+let activeSaveId: string | null = null;
+let report: (() => void) | null = null;
+
+const post = (message: PresenceMessage) => channel?.postMessage(message);
+
+export function hasOtherTabs() {
+  return peers.size > 0;
+}
+
+// Starts announcing this tab and reports peer changes; returns a stop function
+export function startTabPresence(
+  initialSaveId: string | null,
+  onChange: (presence: TabPresence) => void,
+) {
+  if (typeof BroadcastChannel === 'undefined' || channel) return () => {};
+
+  activeSaveId = initialSaveId;
+  const presenceChannel = new BroadcastChannel(PRESENCE_CHANNEL);
+  channel = presenceChannel;
+
+  const notify = () => {
+    const conflict = activeSaveId !== null
+      && [...peers.values()].some(peer => peer.saveId === activeSaveId);
+    onChange({ otherTabs: peers.size, conflictSaveId: conflict ? activeSaveId : null });
+  };
+  report = notify;
+
+  presenceChannel.onmessage = (e: MessageEvent<PresenceMessage>) => {
+    const message = e.data;
+    if (message.type === 'bye') {
+      peers.delete(message.tabId);
+    } else {
+      peers.set(message.tabId, { saveId: message.saveId, lastSeen: Date.now() });
+      // Newcomers learn about us straight away instead of on the next heartbeat
+      if (message.type === 'hello') post({ type: 'claim', tabId: TAB_ID, saveId: activeSaveId });
+    }
+    notify();
+  };
+
+  const heartbeat = window.setInterval(() => {
+    post({ type: 'claim', tabId: TAB_ID, saveId: activeSaveId });
+    const now = Date.now();
+    let pruned = false;
+    peers.forEach((peer, tabId) => {
+      if (now - peer.lastSeen > PEER_TIMEOUT) {
+        peers.delete(tabId);
+        pruned = true;
+      }
+    });
+    if (pruned) notify();
+  }, HEARTBEAT_INTERVAL);
+
+  const handlePageHide = () => post({ type: 'bye', tabId: TAB_ID });
+  window.addEventListener('pagehide', handlePageHide);
+
+  post({ type: 'hello', tabId: TAB_ID, saveId: activeSaveId });
+
+  return () => {
+    handlePageHide();
+    window.clearInterval(heartbeat);
+    window.removeEventListener('pagehide', handlePageHide);
+    presenceChannel.close();
+    channel = null;
+    report = null;
+    peers.clear();
+  };
+}
+
+// Claims the save this tab is now playing and re-evaluates conflicts
+export function setActiveSave(saveId: string | null) {
+  if (saveId === activeSaveId) return;
+  activeSaveId = saveId;
+  post({ type: 'claim', tabId: TAB_ID, saveId });
+  report?.();
+}
@@ -0,0 +1,33 @@
+// ============================================================================
+// THUMBNAIL CAPTURE
+// ============================================================================
+// Width of stored thumbnails in pixels; height follows the canvas aspect ratio
+const THUMBNAIL_WIDTH = 192;
+const THUMBNAIL_QUALITY = 0.7;
+
+// The R3F canvas registers itself here (see Game.tsx) so the store can grab
+// a frame at save time without holding a reference to the renderer.
+let sourceCanvas: HTMLCanvasElement | null = null;
+
+export function setThumbnailSource(canvas: HTMLCanvasElement | null) {
+  sourceCanvas = canvas;
+}
+
+export function captureThumbnail(): string | undefined {
+  if (!sourceCanvas || sourceCanvas.width === 0 || sourceCanvas.height === 0) return undefined;
+
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = THUMBNAIL_WIDTH;
+  thumbnail.height = Math.round(THUMBNAIL_WIDTH * sourceCanvas.height / sourceCanvas.width);
+
+  const context = thumbnail.getContext('2d');
+  if (!context) return undefined;
+
+  try {
+    context.drawImage(sourceCanvas, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+  } catch (error) {
+    console.warn('Failed to capture save thumbnail:', error);
+    return undefined;
+  }
+}
@@ -0,0 +1,127 @@
+import type { SaveData } from '../types';
+import { SAVE_SCHEMA_VERSION, SaveFormatError, migrateSave } from './saveSchema';
+
+// ============================================================================
+// EXPORT FILE FORMAT
+// ============================================================================
+const EXPORT_FORMAT = 'mini3d-save';
+
+interface SaveExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  checksum: string;
+  data: SaveData;
+}
+
+// FNV-1a (32-bit) over the serialized payload. Catches truncated or
+// hand-edited files; it is not meant to be tamper-proof.
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+export function serializeSaveExport(data: SaveData): string {
+  const file: SaveExportFile = {
+    format: EXPORT_FORMAT,
+    version: SAVE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    checksum: computeChecksum(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function downloadSaveExport(data: SaveData) {
+  const blob = new Blob([serializeSaveExport(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const safeName = data.name.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') || 'save';
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `mini3d_${safeName}_${data.timestamp}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+export function parseSaveExport(text: string): SaveData {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new SaveFormatError('Save file is not valid JSON');
+  }
+
+  if (typeof file !== 'object' || file === null) {
+    throw new SaveFormatError('Save file is not an object');
+  }
+
+  const { format, version, checksum, data } = file as Partial<SaveExportFile>;
+  if (format !== EXPORT_FORMAT) {
+    throw new SaveFormatError('Not a Mini Mania save file');
+  }
+  if (typeof checksum !== 'string' || computeChecksum(JSON.stringify(data)) !== checksum) {
+    throw new SaveFormatError('Save file checksum does not match (file is damaged or edited)');
+  }
+
+  // Exported data is stored un-enveloped, so re-wrap it for the migration step
+  return migrateSave({ version, data });
+}
+
+// Resolves null when the dialog is cancelled. Browsers without the input's
+// `cancel` event get the window `focus` the closing dialog hands back; that
+// fires before `change`, so it waits a moment for a file to arrive.
+const CANCEL_GRACE_MS = 500;
+
+export function pickSaveFile(): Promise<SaveData | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'application/json,.json';
+
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      window.removeEventListener('focus', onFocus);
+      finish();
+    };
+    const onFocus = () => {
+      setTimeout(() => {
+        if (!input.files?.length) settle(() => resolve(null));
+      }, CANCEL_GRACE_MS);
+    };
+
+    input.addEventListener('cancel', () => settle(() => resolve(null)));
+    window.addEventListener('focus', onFocus);
+
+    input.onchange = async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        settle(() => resolve(null));
+        return;
+      }
+      try {
+        const data = parseSaveExport(await file.text());
+        settle(() => resolve(data));
+      } catch (error) {
+        settle(() => reject(error));
+      }
+    };
+
+    input.click();
+  });
+}
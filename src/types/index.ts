@@ -42,6 +42,78 @@ export interface PhysicsWorld {
   wallMaterial: CANNON.Material;
 }
 
+export type LobbyMinigameId = 'minigame1' | 'minigame2' | 'minigame3';
+
+export interface InventoryItem {
+  id: string;
+  minigameId: LobbyMinigameId | 'minigame4';
+  color: string;
+}
+
+export interface PlayerLook {
+  yaw: number;
+  pitch: number;
+}
+
+export interface DiceResult {
+  dice1: number;
+  dice2: number;
+  dice3: number;
+  total: number;
+}
+
+// A hand throw read from a mouse gesture on the dice table
+export interface DiceThrow {
+  dirX: number; // screen right, normalised with dirY
+  dirY: number; // screen up = away from the player
+  strength: number; // 0–1
+  spin: number; // -1 (curved left) to 1 (curved right)
+}
+
+// How a basket went in: clean, off the rim, or off the backboard
+export type BasketballShotKind = 'swish' | 'rimIn' | 'bank';
+
+// One basketball shot's settlement: armed (staked, ball in hand) → inFlight
+// → scored / missed → settled (paid exactly once)
+export type BasketballShotPhase = 'armed' | 'inFlight' | 'scored' | 'missed' | 'settled';
+export type BasketballMissReason = 'grounded' | 'timeout' | 'outOfCourt' | 'abandoned' | 'shotClock';
+
+export interface BasketballShot {
+  id: string;
+  phase: BasketballShotPhase;
+  stake: number;
+  kind?: BasketballShotKind; // set when scored
+  missReason?: BasketballMissReason; // set when missed
+  multiplier?: number; // stake multiple a make pays, set when settled
+  payout?: number; // total credited, set when settled
+}
+
+// Classic single shots, a timed shootout, streak multipliers, or a hoop
+// sliding along a rail (see economy/basketballModes.ts for payouts)
+export type BasketballMode = 'classic' | 'shootout' | 'streak' | 'movingHoop';
+
+// A running shootout: the round clock and the shot clock, in seconds
+export interface BasketballRound {
+  timeLeft: number;
+  shotClock: number;
+  over: boolean;
+}
+
+export type LedgerSource = LobbyMinigameId | 'debug' | 'system';
+export type LedgerReason = 'opening' | 'bet' | 'payout' | 'refund' | 'adjustment' | 'rewind';
+
+// One money movement; balance is the total right after it was applied
+export interface LedgerEntry {
+  id: string;
+  timestamp: number;
+  amount: number; // signed
+  balance: number;
+  source: LedgerSource;
+  reason: LedgerReason;
+}
+
+// Bump SAVE_SCHEMA_VERSION (src/save/saveSchema.ts) and add a migration
+// whenever this shape changes.
 export interface SaveData {
   id: string;
   name: string;
@@ -49,13 +121,32 @@ export interface SaveData {
   currentRoom: RoomType;
   money: number;
   position: { x: number; y: number; z: number };
+  look: PlayerLook;
   lastAutoSave: number;
+  inventory: InventoryItem[];
+  playedMinigames: Record<LobbyMinigameId, boolean>;
+  spawnedBoxes: Record<LobbyMinigameId, boolean>;
+  collectedBoxes: Record<LobbyMinigameId, boolean>;
+  playtime: number; // seconds
+  ledger: LedgerEntry[]; // most recent money movements, oldest first
+  basketballBests: Record<BasketballMode, number>;
 }
 
 export interface SaveSlot {
   id: string;
   name: string;
   timestamp: number;
+  mode: SaveMode;
+  // Summary shown in the save browser (absent on slots from older builds)
+  currentRoom?: RoomType;
+  money?: number;
+  playtime?: number;
+  hasThumbnail?: boolean; // image stored under its own key (see thumbnailKey)
 }
 
 export type SaveMode = 'manual' | 'auto' | 'quick';
+
+export interface SaveEnvelope {
+  version: number;
+  data: SaveData;
+}
@@ -0,0 +1,12 @@
+// ============================================================================
+// DISPLAY FORMATTING
+// ============================================================================
+// Seconds of play as m:ss, or h:mm:ss once past an hour
+export function formatPlaytime(seconds: number) {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`;
+}
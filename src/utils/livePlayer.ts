@@ -0,0 +1,57 @@
+import type { PlayerLook } from '../types';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+type Vec3 = { x: number; y: number; z: number };
+
+export interface LivePlayerSample {
+  position: Vec3 | null; // null until the first frame after a pose was set
+  look: PlayerLook | null;
+  playtime: number; // seconds of play not yet folded into the game store
+}
+
+// ============================================================================
+// LIVE PLAYER TELEMETRY
+// ============================================================================
+// Sampled every frame by Player.tsx and kept out of the game store: a set()
+// there re-renders every subscriber and makes persist rewrite the settings
+// key. The store takes these in only when it snapshots progress.
+const live: LivePlayerSample = { position: null, look: null, playtime: 0 };
+const playtimeListeners = new Set<(seconds: number) => void>();
+
+export function sampleLivePose(position: Vec3, look: PlayerLook) {
+  live.position = position;
+  live.look = look;
+}
+
+export function addLivePlaytime(seconds: number) {
+  live.playtime += seconds;
+  playtimeListeners.forEach(listener => listener(seconds));
+}
+
+// Fires for every tick of live play, before it reaches the store
+export function onLivePlaytime(listener: (seconds: number) => void) {
+  playtimeListeners.add(listener);
+  return () => playtimeListeners.delete(listener);
+}
+
+export function peekLivePlayer(): Readonly<LivePlayerSample> {
+  return live;
+}
+
+// Hands over everything sampled since the last call and starts afresh
+export function takeLivePlayer(): LivePlayerSample {
+  const sample = { ...live };
+  live.position = null;
+  live.look = null;
+  live.playtime = 0;
+  return sample;
+}
+
+// A pose the game sets itself (load, teleport, rewind) supersedes samples
+// taken before it
+export function clearLivePose() {
+  live.position = null;
+  live.look = null;
+}
@@ -0,0 +1,85 @@
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+// Each game draws from its own stream, so extra draws in one game (say, a
+// dice re-roll) never shift the sequence another game sees
+export type RngStreamName = 'dice' | 'simon' | 'basketball' | 'ids';
+
+export interface RngStream {
+  next: () => number; // [0, 1)
+  range: (min: number, max: number) => number; // [min, max)
+  int: (min: number, max: number) => number; // [min, max], inclusive
+  id: (length: number) => string; // base-36 suffix for generated ids
+}
+
+// ============================================================================
+// PRNG
+// ============================================================================
+// cyrb53-style string hash, folded to 32 bits for the generator state
+function hashSeed(text: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h1 ^ h2) >>> 0;
+}
+
+// mulberry32: small, fast and good enough for gameplay randomness
+function mulberry32(state: number): () => number {
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createRngStream(seed: string, name: string): RngStream {
+  const next = mulberry32(hashSeed(`${seed}:${name}`));
+  const range = (min: number, max: number) => min + next() * (max - min);
+  return {
+    next,
+    range,
+    int: (min, max) => Math.floor(range(min, max + 1)),
+    id: (length) => Array.from({ length }, () => Math.floor(next() * 36).toString(36)).join(''),
+  };
+}
+
+// ============================================================================
+// SEED & STREAMS
+// ============================================================================
+// A fresh random seed per page load unless one is set (replays, daily
+// challenges, tests)
+let currentSeed = Date.now().toString(36) + Math.floor(Math.random() * 1e9).toString(36);
+const streams = new Map<RngStreamName, RngStream>();
+
+export function getRngSeed() {
+  return currentSeed;
+}
+
+// Restarts every stream from the start of the new seed's sequence
+export function setRngSeed(seed: string) {
+  currentSeed = seed;
+  streams.clear();
+  console.log(`RNG seeded: ${seed}`);
+}
+
+export function rng(name: RngStreamName): RngStream {
+  let stream = streams.get(name);
+  if (!stream) {
+    stream = createRngStream(currentSeed, name);
+    streams.set(name, stream);
+  }
+  return stream;
+}
+
+// Shared seed for everyone playing on the same (UTC) day
+export function dailySeed(date = new Date()) {
+  return `daily-${date.toISOString().slice(0, 10)}`;
+}